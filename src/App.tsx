@@ -5,8 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import BoardManagement from "./pages/BoardManagement";
 import BoardSetup from "./pages/BoardSetup";
+import BoardSettings from "./pages/BoardSettings";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Settings from "./pages/Settings";
 
 const queryClient = new QueryClient();
 
@@ -20,6 +22,8 @@ const App = () => (
           <Route path="/" element={<BoardManagement />} />
           <Route path="/board/:boardId" element={<Index />} />
           <Route path="/board/:boardId/setup" element={<BoardSetup />} />
+          <Route path="/board/:boardId/settings" element={<BoardSettings />} />
+          <Route path="/settings" element={<Settings />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
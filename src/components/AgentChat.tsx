@@ -1,250 +1,404 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Loader2 } from 'lucide-react';
 import {
   Send,
   Bot,
   User,
   X,
-  FileText,
-  Lightbulb,
-  Code,
-  TestTube,
-  AlertCircle
+  AlertCircle,
+  Square,
+  Users,
+  ArrowRightLeft,
+  History,
+  Plus,
+  Trash2,
+  Workflow,
+  MoreHorizontal,
+  Ticket as TicketIcon,
+  ListChecks,
+  FileText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { apiService, type ChatResponse } from '@/lib/api';
+import { apiService, type ChatRequest } from '@/lib/api';
+import { describeError, type ErrorDescription } from '@/lib/apiErrors';
+import { getRoleStyle } from '@/lib/roles';
+import {
+  appendMessages,
+  createThread,
+  threadsInScope,
+  toPreviousMessages,
+  type ChatMessage,
+  type ChatScope,
+  type ChatThread
+} from '@/lib/chatHistory';
+import { useChatStream } from '@/hooks/use-chat-stream';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { useRoles } from '@/hooks/use-roles';
 import { FormattedMessage } from './FormattedMessage';
-import type { Role } from './KanbanBoard';
-
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'agent';
-  timestamp: Date;
-  suggestions?: string[];
-  context_used?: string;
-  workflow_suggestions?: string[];
-}
+import { OfflineNotice } from './ConnectionIndicator';
+import type { ActiveWorkflow } from '@/lib/workflows';
+import type { MessageAction } from '@/lib/messageActions';
+import {
+  applyPaletteItem,
+  findPaletteToken,
+  formatCommand,
+  paletteItems,
+  parseCommand,
+  resolveMentions,
+  type PaletteItem
+} from '@/lib/chatCommands';
+import { buildMentionContext } from '@/lib/ticketContext';
+import type { Epic, Role, Ticket } from './KanbanBoard';
+
+// 'team' sends every message to /orchestrate, which picks the agent that answers
+export type ChatMode = 'role' | 'team';
 
 interface AgentChatProps {
   role: Role;
+  mode?: ChatMode;
   isOpen: boolean;
   onClose: () => void;
+  // Every saved conversation on the board; the chat shows the ones in its scope
+  threads: ChatThread[];
+  onThreadsChange: React.Dispatch<React.SetStateAction<ChatThread[]>>;
+  ticketId?: string;
+  // Sent with every message of a ticket discussion; see lib/ticketContext
+  ticketContext?: Record<string, unknown>;
+  // 'embedded' renders inline, e.g. inside the ticket modal, instead of as a side panel
+  variant?: 'panel' | 'embedded';
+  // Workflow this chat is following; its id goes out as `workflow_context`
+  workflow?: ActiveWorkflow | null;
+  onWorkflowEnd?: () => void;
+  // Opens the workflow panel at a workflow the agent suggested
+  onWorkflowOpen?: (workflow: string) => void;
+  // Turns a saved message into a ticket, acceptance criteria or documentation
+  onMessageAction?: (action: MessageAction) => void;
+  onTicketOpen?: (ticketId: string) => void;
+  // What #ticket and @epic mentions complete to and resolve against
+  tickets?: Ticket[];
+  epics?: Epic[];
 }
 
-const roleAgentConfig = {
-  analyst: {
-    name: 'Analyst AI',
-    description: 'Business Analysis & Documentation',
-    color: 'bg-role-analyst',
-    gradient: 'bg-gradient-role-analyst',
-    icon: FileText,
-    suggestions: [
-      'Generate project documentation',
-      'Create user stories from requirements',
-      'Analyze business impact',
-      'Define acceptance criteria'
-    ]
-  },
-  pm: {
-    name: 'PM AI',
-    description: 'Product Management & Planning',
-    color: 'bg-role-pm',
-    gradient: 'bg-gradient-role-pm',
-    icon: Lightbulb,
-    suggestions: [
-      'Create epics from documentation',
-      'Prioritize user stories',
-      'Plan sprint backlog',
-      'Generate product roadmap'
-    ]
-  },
-  dev: {
-    name: 'Developer AI',
-    description: 'Code Implementation & Review',
-    color: 'bg-role-dev',
-    gradient: 'bg-gradient-role-dev',
-    icon: Code,
-    suggestions: [
-      'Implement story EPIC-1.1',
-      'Review code changes',
-      'Suggest architectural improvements',
-      'Generate unit tests'
-    ]
-  },
-  qa: {
-    name: 'QA AI',
-    description: 'Quality Assurance & Testing',
-    color: 'bg-role-qa',
-    gradient: 'bg-gradient-role-qa',
-    icon: TestTube,
-    suggestions: [
-      'Create test cases for story',
-      'Review test coverage',
-      'Report bugs and issues',
-      'Verify acceptance criteria'
-    ]
-  }
-};
-
-const mockMessages: Record<Role, Message[]> = {
-  analyst: [
-    {
-      id: '1',
-      content: 'Hello! I\'m your Business Analyst AI. I can help you generate comprehensive documentation, analyze requirements, and create detailed user stories. What would you like to work on?',
-      sender: 'agent',
-      timestamp: new Date(Date.now() - 10000),
-      suggestions: roleAgentConfig.analyst.suggestions
-    }
-  ],
-  pm: [
-    {
-      id: '1',
-      content: 'Hi! I\'m your Product Manager AI. I can help you create epics, prioritize stories, and plan your product roadmap based on the project documentation. How can I assist you today?',
-      sender: 'agent',
-      timestamp: new Date(Date.now() - 10000),
-      suggestions: roleAgentConfig.pm.suggestions
-    }
-  ],
-  dev: [
-    {
-      id: '1',
-      content: 'Hey there! I\'m your Developer AI assistant. I can help implement stories, review code, suggest improvements, and generate tests. Ready to start coding?',
-      sender: 'agent',
-      timestamp: new Date(Date.now() - 10000),
-      suggestions: roleAgentConfig.dev.suggestions
-    }
-  ],
-  qa: [
-    {
-      id: '1',
-      content: 'Hello! I\'m your QA AI. I can help create comprehensive test cases, review testing coverage, identify potential issues, and ensure quality standards. What story should we test?',
-      sender: 'agent',
-      timestamp: new Date(Date.now() - 10000),
-      suggestions: roleAgentConfig.qa.suggestions
-    }
-  ]
-};
+// Typing "/team <question>" asks the whole team without leaving the current agent
+const TEAM_COMMAND = /^\/team\s+/i;
 
-export function AgentChat({ role, isOpen, onClose }: AgentChatProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export function AgentChat({
+  role,
+  mode = 'role',
+  isOpen,
+  onClose,
+  threads,
+  onThreadsChange,
+  ticketId,
+  ticketContext,
+  variant = 'panel',
+  workflow,
+  onWorkflowEnd,
+  onWorkflowOpen,
+  onMessageAction,
+  onTicketOpen,
+  tickets = [],
+  epics = []
+}: AgentChatProps) {
+  // undefined follows the most recent thread in scope; null is a new, not yet saved conversation
+  const [activeThreadId, setActiveThreadId] = useState<string | null | undefined>(undefined);
+  const [showThreads, setShowThreads] = useState(false);
   const [inputMessage, setInputMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  const { isStreaming: isLoading, streamingText, runStream, stopStream } = useChatStream();
+  const { isOffline } = useConnectionStatus();
+  const { roles, getRole } = useRoles();
+  // Who the next message goes to; null while asking the team
+  const [target, setTarget] = useState<Role | null>(mode === 'team' ? null : role);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Caret position decides which token the command palette completes
+  const [caret, setCaret] = useState(0);
+  const [paletteIndex, setPaletteIndex] = useState(0);
+  const [isPaletteDismissed, setPaletteDismissed] = useState(false);
+
+  // Threads belong to the agent (or the team) the chat was opened for, and to the ticket if any
+  const scope = useMemo<ChatScope>(() => ({ role: mode === 'team' ? null : role, ticketId }), [mode, role, ticketId]);
+  const scopedThreads = threadsInScope(threads, scope);
+  const activeThread = activeThreadId === undefined
+    ? scopedThreads[0] ?? null
+    : scopedThreads.find(thread => thread.id === activeThreadId) ?? null;
 
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading]);
+  }, [activeThread?.messages, isLoading, streamingText]);
 
-  // Initialize with welcome message when component opens
+  // Closing the panel stops any response still streaming in
   useEffect(() => {
-    if (isOpen && messages.length === 0) {
-      const welcomeMessage: Message = {
-        id: 'welcome',
-        content: `Hello! I'm your ${roleAgentConfig[role].name}. ${roleAgentConfig[role].description}. How can I help you today?`,
-        sender: 'agent',
-        timestamp: new Date(),
-        suggestions: roleAgentConfig[role].suggestions
-      };
-      setMessages([welcomeMessage]);
-    }
-  }, [isOpen, role, messages.length]);
-  
-  const agentConfig = roleAgentConfig[role];
+    if (!isOpen) stopStream();
+  }, [isOpen, stopStream]);
+
+  // Opening the chat from the board picks who it talks to and resumes their latest thread
+  useEffect(() => {
+    if (!isOpen) return;
+    setTarget(scope.role);
+    setActiveThreadId(undefined);
+    setShowThreads(false);
+    setError(null);
+  }, [isOpen, scope]);
+
+  const isTeam = target === null;
+  const profile = getRole(target ?? role);
+  const agentConfig = useMemo(() => isTeam
+    ? {
+        label: 'Team',
+        name: 'the Team',
+        description: 'Each question goes to the agent best suited to answer it',
+        color: 'bg-primary',
+        gradient: 'bg-gradient-primary',
+        icon: Users,
+        suggestions: roles.map(known => known.suggestions[0]).filter(Boolean).slice(0, 4)
+      }
+    : { ...profile, name: `${profile.label} AI` },
+  [isTeam, profile, roles]);
+
+  // A new conversation opens with a greeting that is not saved to the thread
+  const messages: ChatMessage[] = activeThread?.messages ?? [{
+    id: 'welcome',
+    content: `Hello! I'm your ${agentConfig.name}.${agentConfig.description ? ` ${agentConfig.description}.` : ''} How can I help you today?`,
+    sender: 'agent',
+    timestamp: new Date(),
+    role: target ?? undefined,
+    suggestions: agentConfig.suggestions
+  }];
+
+  const addMessages = (threadId: string, added: ChatMessage[]) =>
+    onThreadsChange(prev => prev.map(thread => thread.id === threadId ? appendMessages(thread, added) : thread));
+
+  const openThread = (threadId: string | null) => {
+    setActiveThreadId(threadId);
+    setTarget(scope.role);
+    setShowThreads(false);
+    setError(null);
+  };
+
+  const deleteThread = (threadId: string) => {
+    onThreadsChange(prev => prev.filter(thread => thread.id !== threadId));
+    if (threadId === activeThread?.id) setActiveThreadId(null);
+  };
+
+  // Hand the conversation to another agent, or back to the team, noting it in the timeline
+  const handOff = (next: Role | null) => {
+    if (next === target) return;
+    setTarget(next);
+    if (!activeThread) return;
+    addMessages(activeThread.id, [{
+      id: `handoff-${Date.now()}`,
+      content: next === null ? 'Asking the whole team' : `Handed off to ${getRole(next).label}`,
+      sender: 'system',
+      timestamp: new Date()
+    }]);
+  };
+
+  // Starting a workflow drafts its kick-off message
+  useEffect(() => {
+    if (workflow) setInputMessage(`Let's start the ${workflow.name} workflow.`);
+  }, [workflow]);
+
   const Icon = agentConfig.icon;
 
+  // The team has no commands of its own, only the /team shortcut the agents share
+  const commands = isTeam ? [] : profile.commands;
+  const paletteToken = isPaletteDismissed ? null : findPaletteToken(inputMessage, caret);
+  const palette = paletteToken
+    ? paletteItems(paletteToken, { commands: isTeam ? [] : [...commands, 'team'], tickets, epics })
+    : [];
+
+  const updateInput = (value: string, position: number) => {
+    setInputMessage(value);
+    setCaret(position);
+    setPaletteIndex(0);
+    setPaletteDismissed(false);
+  };
+
+  const choosePaletteItem = (item: PaletteItem) => {
+    const next = applyPaletteItem(inputMessage, paletteToken, item);
+    updateInput(next.text, next.caret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (palette.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPaletteIndex(prev => (prev + step + palette.length) % palette.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        choosePaletteItem(palette[Math.min(paletteIndex, palette.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setPaletteDismissed(true);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !isLoading) sendMessage();
+  };
+
   const sendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return;
+    if (!inputMessage.trim() || isLoading || isOffline) return;
 
-    const userMessage: Message = {
+    const teamCommand = inputMessage.trim().match(TEAM_COMMAND);
+    const content = teamCommand ? inputMessage.trim().slice(teamCommand[0].length) : inputMessage.trim();
+    const askTeam = isTeam || !!teamCommand;
+    if (!content) return;
+
+    const userMessage: ChatMessage = {
       id: Date.now().toString(),
-      content: inputMessage.trim(),
+      content,
       sender: 'user',
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    setInputMessage('');
-    setIsLoading(true);
+    // Only the thread's own history goes to the agent
+    const history = activeThread?.messages ?? [];
+    let threadId = activeThread?.id;
+    if (threadId) {
+      addMessages(threadId, [userMessage]);
+    } else {
+      const thread = appendMessages(createThread(scope, content), [userMessage]);
+      threadId = thread.id;
+      onThreadsChange(prev => [...prev, thread]);
+      setActiveThreadId(thread.id);
+    }
+    updateInput('', 0);
     setError(null);
 
+    // "/command args" goes out in the agent's own command format; mentions travel as context
+    const command = askTeam ? null : parseCommand(content, commands);
+    const mentions = resolveMentions(content, tickets, epics);
+
     try {
-      const chatRequest = {
-        message: inputMessage.trim(),
+      const chatRequest: ChatRequest = {
+        message: command ? formatCommand(target, command.command, command.args) : content,
+        workflow_context: workflow?.id,
         context: {
-          role: role,
-          previous_messages: messages.slice(-10).map(m => ({
-            sender: m.sender,
-            content: m.content,
-            timestamp: m.timestamp.toISOString()
-          }))
+          role: askTeam ? undefined : target,
+          ticket_id: ticketId,
+          ...ticketContext,
+          command: command?.command,
+          ...buildMentionContext(mentions.tickets, mentions.epics),
+          previous_messages: toPreviousMessages(history)
         }
       };
 
-      const response: ChatResponse = await apiService.chatWithRole(role, chatRequest);
+      const { text, response, aborted } = await runStream(signal => askTeam
+        ? apiService.streamOrchestrate(chatRequest, { signal })
+        : apiService.streamChatWithRole(target, chatRequest, { signal })
+      );
+      if (aborted && !text) return;
+
+      const answeredBy = response?.role || (askTeam ? undefined : target);
 
-      const agentResponse: Message = {
+      addMessages(threadId, [{
         id: (Date.now() + 1).toString(),
-        content: response.response,
+        content: aborted ? `${text}\n\n*Response stopped.*` : text,
         sender: 'agent',
-        timestamp: new Date(response.timestamp),
-        context_used: response.context_used,
-        workflow_suggestions: response.workflow_suggestions,
-        suggestions: agentConfig.suggestions
-      };
-
-      setMessages(prev => [...prev, agentResponse]);
+        timestamp: response ? new Date(response.timestamp) : new Date(),
+        role: answeredBy,
+        routed: askTeam,
+        context_used: response?.context_used,
+        workflow_suggestions: response?.workflow_suggestions,
+        suggestions: answeredBy ? getRole(answeredBy).suggestions : agentConfig.suggestions
+      }]);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to get response from AI agent';
-      setError(errorMessage);
+      const description = describeError(err, 'Failed to get response from AI agent');
+      const errorMessage = description.message;
+      setError(description);
 
       // Add error message to chat
-      const errorResponse: Message = {
+      addMessages(threadId, [{
         id: (Date.now() + 1).toString(),
         content: `Sorry, I encountered an error: ${errorMessage}. Please try again or check if the backend server is running.`,
         sender: 'agent',
         timestamp: new Date(),
+        role: target ?? undefined,
         suggestions: agentConfig.suggestions
-      };
-
-      setMessages(prev => [...prev, errorResponse]);
-    } finally {
-      setIsLoading(false);
+      }]);
     }
   };
 
   const handleSuggestionClick = (suggestion: string) => {
-    setInputMessage(suggestion);
+    updateInput(suggestion, suggestion.length);
+    setPaletteDismissed(true);
   };
 
   if (!isOpen) return null;
 
-  return (
-    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50" style={{ zIndex: 9999 }}>
-      <div className="absolute right-0 top-0 h-full w-96 bg-card border-l shadow-kanban-focus">
-        <Card className="h-full rounded-none border-0">
-          <CardHeader className={cn("pb-4", agentConfig.gradient, "text-white")}>
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <Avatar className="w-10 h-10 bg-white/20">
-                  <AvatarFallback className="bg-transparent">
-                    <Icon className="w-5 h-5" />
-                  </AvatarFallback>
-                </Avatar>
-                <div>
-                  <CardTitle className="text-lg">{agentConfig.name}</CardTitle>
-                  <p className="text-sm opacity-90">{agentConfig.description}</p>
-                </div>
-              </div>
+  const conversation = (
+    <Card className={cn("h-full", variant === 'panel' ? "rounded-none border-0" : "flex flex-col overflow-hidden")}>
+      <CardHeader className={cn("pb-4", agentConfig.gradient, "text-white")}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Avatar className="w-10 h-10 bg-white/20">
+              <AvatarFallback className="bg-transparent">
+                <Icon className="w-5 h-5" />
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <CardTitle className="text-lg">{agentConfig.name}</CardTitle>
+              <p className="text-sm opacity-90">{agentConfig.description}</p>
+            </div>
+          </div>
+          <div className="flex items-center">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/20"
+                  title="Hand off to another agent"
+                >
+                  <ArrowRightLeft className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48" style={{ zIndex: 10000 }}>
+                <DropdownMenuItem onClick={() => handOff(null)} disabled={isTeam} className="gap-2">
+                  <Users className="w-4 h-4" />
+                  Ask the Team
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {roles.map(known => (
+                  <DropdownMenuItem
+                    key={known.id}
+                    onClick={() => handOff(known.id)}
+                    disabled={known.id === target}
+                    className="gap-2"
+                  >
+                    <known.icon className="w-4 h-4" />
+                    {known.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {variant === 'panel' && (
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -253,97 +407,261 @@ export function AgentChat({ role, isOpen, onClose }: AgentChatProps) {
               >
                 <X className="w-4 h-4" />
               </Button>
-            </div>
-          </CardHeader>
-
-          <CardContent className="flex flex-col h-full p-0">
-            {/* Messages */}
-            <div className="flex-1 p-4 max-h-96 overflow-y-auto min-h-0">
-              <div className="space-y-4">
-                {messages.map((message) => (
-                  <div key={message.id} className="chat-message">
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex flex-col h-full p-0">
+        {workflow && (
+          <div className="flex items-center justify-between gap-2 border-b bg-muted/50 px-4 py-2 text-sm">
+            <span className="flex items-center gap-2 truncate">
+              <Workflow className="w-4 h-4 flex-shrink-0" />
+              Workflow: <span className="font-medium truncate">{workflow.name}</span>
+            </span>
+            {onWorkflowEnd && (
+              <Button variant="ghost" size="sm" onClick={onWorkflowEnd}>
+                End
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Thread picker */}
+        <div className="flex items-center gap-1 border-b px-2 py-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex-1 justify-start gap-2 min-w-0"
+            onClick={() => setShowThreads(prev => !prev)}
+            title="Saved conversations"
+          >
+            <History className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{activeThread?.title ?? 'New conversation'}</span>
+            {scopedThreads.length > 0 && (
+              <Badge variant="secondary" className="ml-auto text-xs">{scopedThreads.length}</Badge>
+            )}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => openThread(null)} title="New conversation" disabled={!activeThread}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {showThreads ? (
+          <div className="flex-1 p-4 overflow-y-auto min-h-0 space-y-2">
+            {scopedThreads.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">No saved conversations yet.</p>
+            ) : scopedThreads.map(thread => (
+              <div
+                key={thread.id}
+                className={cn(
+                  "rounded-lg border p-3 cursor-pointer hover:bg-muted/50 transition-colors",
+                  thread.id === activeThread?.id && "border-primary"
+                )}
+                onClick={() => openThread(thread.id)}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium line-clamp-2">{thread.title}</p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 flex-shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteThread(thread.id);
+                    }}
+                    aria-label="Delete conversation"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {thread.messages.filter(message => message.sender !== 'system').length} messages · {thread.updatedAt.toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex-1 p-4 max-h-96 overflow-y-auto min-h-0">
+            <div className="space-y-4">
+              {messages.map((message) => message.sender === 'system' ? (
+                <div key={message.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <div className="flex-1 border-t" />
+                  {message.content}
+                  <div className="flex-1 border-t" />
+                </div>
+              ) : (
+                <div key={message.id} className="chat-message">
+                  <div className={cn(
+                    "flex items-start space-x-2",
+                    message.sender === 'user' ? "justify-end" : "justify-start"
+                  )}>
+                    {message.sender === 'agent' && (
+                      <Avatar className="w-8 h-8 flex-shrink-0">
+                        <AvatarFallback className={message.role ? getRoleStyle(message.role).color : agentConfig.color}>
+                          <Bot className="w-4 h-4 text-white" />
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+                      
                     <div className={cn(
-                      "flex items-start space-x-2",
-                      message.sender === 'user' ? "justify-end" : "justify-start"
+                      "max-w-[75%] p-3 rounded-lg break-words overflow-hidden",
+                      message.sender === 'user'
+                        ? "bg-primary text-primary-foreground ml-auto"
+                        : "bg-muted"
                     )}>
                       {message.sender === 'agent' && (
-                        <Avatar className="w-8 h-8 flex-shrink-0">
-                          <AvatarFallback className={agentConfig.color}>
-                            <Bot className="w-4 h-4 text-white" />
-                          </AvatarFallback>
-                        </Avatar>
-                      )}
-                      
-                      <div className={cn(
-                        "max-w-[75%] p-3 rounded-lg break-words overflow-hidden",
-                        message.sender === 'user'
-                          ? "bg-primary text-primary-foreground ml-auto"
-                          : "bg-muted"
-                      )}>
-                        <div className="text-sm break-words overflow-wrap-anywhere">
-                          <FormattedMessage content={message.content} />
+                        <div className="text-xs font-medium mb-1">
+                          {message.role ? getRole(message.role).label : 'Team'}
+                          {message.routed && <span className="font-normal opacity-60"> · picked by the team</span>}
                         </div>
-                        <span className="text-xs opacity-70 mt-2 block">
+                      )}
+                      <div className="text-sm break-words overflow-wrap-anywhere">
+                        <FormattedMessage content={message.content} />
+                      </div>
+                      <div className="flex items-center justify-between gap-2 mt-2">
+                        <span className="text-xs opacity-70">
                           {message.timestamp.toLocaleTimeString()}
                         </span>
-
-                        {/* Show context and workflow info for agent messages */}
-                        {message.sender === 'agent' && (
-                          <div className="mt-2 space-y-1">
-                            {message.context_used && (
-                              <div className="text-xs opacity-60">
-                                Context: {message.context_used}
-                              </div>
-                            )}
-                            {message.workflow_suggestions && message.workflow_suggestions.length > 0 && (
-                              <div className="text-xs opacity-60">
-                                Suggested workflows: {message.workflow_suggestions.join(', ')}
-                              </div>
-                            )}
-                          </div>
+                        {/* The welcome message is not saved, so there is nothing to link back to */}
+                        {onMessageAction && activeThread && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-5 w-5 p-0 opacity-70 hover:opacity-100"
+                                aria-label="Message actions"
+                              >
+                                <MoreHorizontal className="w-3 h-3" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-56" style={{ zIndex: 10000 }}>
+                              <DropdownMenuItem
+                                className="gap-2"
+                                onClick={() => onMessageAction({ kind: 'ticket', threadId: activeThread.id, message })}
+                              >
+                                <TicketIcon className="w-4 h-4" />
+                                Create ticket from this
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                className="gap-2"
+                                onClick={() => onMessageAction({ kind: 'criteria', threadId: activeThread.id, message })}
+                              >
+                                <ListChecks className="w-4 h-4" />
+                                Add as acceptance criteria to ticket…
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                className="gap-2"
+                                onClick={() => onMessageAction({ kind: 'docs', threadId: activeThread.id, message })}
+                              >
+                                <FileText className="w-4 h-4" />
+                                Append to board documentation
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                         )}
                       </div>
-                      
-                      {message.sender === 'user' && (
-                        <Avatar className="w-8 h-8 flex-shrink-0">
-                          <AvatarFallback>
-                            <User className="w-4 h-4" />
-                          </AvatarFallback>
-                        </Avatar>
-                      )}
-                    </div>
-                    
-                    {/* Suggestions */}
-                    {message.sender === 'agent' && message.suggestions && (
-                      <div className="mt-2 ml-10 space-y-2">
-                        <p className="text-xs text-muted-foreground">Quick actions:</p>
-                        <div className="grid grid-cols-1 gap-2">
-                          {message.suggestions.map((suggestion, index) => (
-                            <Button
-                              key={index}
+
+                      {message.ticketIds?.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {message.ticketIds.map(linkedId => (
+                            <Badge
+                              key={linkedId}
                               variant="outline"
-                              size="sm"
-                              onClick={() => handleSuggestionClick(suggestion)}
-                              className="text-left justify-start text-xs h-8"
+                              className={cn("text-xs", onTicketOpen && "cursor-pointer hover:bg-background")}
+                              onClick={() => onTicketOpen?.(linkedId)}
                             >
-                              {suggestion}
-                            </Button>
+                              <TicketIcon className="w-3 h-3 mr-1" />
+                              {linkedId}
+                            </Badge>
                           ))}
                         </div>
-                      </div>
+                      )}
+
+                      {/* Show context and workflow info for agent messages */}
+                      {message.sender === 'agent' && (
+                        <div className="mt-2 space-y-1">
+                          {message.context_used && (
+                            <div className="text-xs opacity-60">
+                              Context: {message.context_used}
+                            </div>
+                          )}
+                          {message.workflow_suggestions && message.workflow_suggestions.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 text-xs">
+                              <span className="opacity-60">Suggested workflows:</span>
+                              {message.workflow_suggestions.map(suggestion => (
+                                <Badge
+                                  key={suggestion}
+                                  variant="outline"
+                                  className={cn("text-xs", onWorkflowOpen && "cursor-pointer hover:bg-background")}
+                                  onClick={() => onWorkflowOpen?.(suggestion)}
+                                >
+                                  <Workflow className="w-3 h-3 mr-1" />
+                                  {suggestion}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                      
+                    {message.sender === 'user' && (
+                      <Avatar className="w-8 h-8 flex-shrink-0">
+                        <AvatarFallback>
+                          <User className="w-4 h-4" />
+                        </AvatarFallback>
+                      </Avatar>
                     )}
                   </div>
-                ))}
+                    
+                  {/* Keep talking to the agent the team picked */}
+                  {message.routed && message.role && message.role !== target && (
+                    <div className="mt-2 ml-10">
+                      <Button variant="secondary" size="sm" className="text-xs h-8" onClick={() => handOff(message.role)}>
+                        <ArrowRightLeft className="w-3 h-3 mr-2" />
+                        Continue with {getRole(message.role).label}
+                      </Button>
+                    </div>
+                  )}
+
+                  {/* Suggestions */}
+                  {message.sender === 'agent' && message.suggestions && (
+                    <div className="mt-2 ml-10 space-y-2">
+                      <p className="text-xs text-muted-foreground">Quick actions:</p>
+                      <div className="grid grid-cols-1 gap-2">
+                        {message.suggestions.map((suggestion, index) => (
+                          <Button
+                            key={index}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleSuggestionClick(suggestion)}
+                            className="text-left justify-start text-xs h-8"
+                          >
+                            {suggestion}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
 
-                {/* Loading Animation */}
-                {isLoading && (
-                  <div className="flex items-start space-x-2">
-                    <Avatar className="w-8 h-8 flex-shrink-0">
-                      <AvatarFallback className={agentConfig.color}>
-                        <Bot className="w-4 h-4 text-white" />
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="bg-muted p-3 rounded-lg max-w-[75%] break-words overflow-hidden">
+              {/* Loading Animation */}
+              {isLoading && (
+                <div className="flex items-start space-x-2">
+                  <Avatar className="w-8 h-8 flex-shrink-0">
+                    <AvatarFallback className={agentConfig.color}>
+                      <Bot className="w-4 h-4 text-white" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="bg-muted p-3 rounded-lg max-w-[75%] break-words overflow-hidden">
+                    {streamingText ? (
+                      <div className="text-sm break-words overflow-wrap-anywhere">
+                        <FormattedMessage content={streamingText} />
+                      </div>
+                    ) : (
                       <div className="flex items-center space-x-2">
                         <div className="flex space-x-1">
                           <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.3s]"></div>
@@ -354,65 +672,106 @@ export function AgentChat({ role, isOpen, onClose }: AgentChatProps) {
                           {agentConfig.name} is thinking...
                         </span>
                       </div>
-                    </div>
+                    )}
                   </div>
-                )}
+                </div>
+              )}
 
-                {/* Scroll anchor */}
-                <div ref={messagesEndRef} />
-              </div>
+              {/* Scroll anchor */}
+              <div ref={messagesEndRef} />
             </div>
+          </div>
+        )}
 
-            {/* Error Display */}
-            {error && (
-              <div className="border-t p-4">
-                <Alert variant="destructive">
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              </div>
-            )}
+        {/* Error Display */}
+        {error && (
+          <div className="border-t p-4">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{error.title}</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          </div>
+        )}
 
-            {/* Input Area */}
-            <div className="border-t p-3 flex-shrink-0">
-              <div className="flex space-x-2">
-                <Input
-                  placeholder={`Message ${agentConfig.name}...`}
-                  value={inputMessage}
-                  onChange={(e) => setInputMessage(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && !isLoading && sendMessage()}
-                  className="flex-1"
-                  disabled={isLoading}
-                />
-                <Button
-                  onClick={sendMessage}
-                  size="sm"
-                  disabled={isLoading || !inputMessage.trim()}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    <Send className="w-4 h-4" />
-                  )}
-                </Button>
-              </div>
-              
-              <div className="flex flex-wrap gap-1">
-                {agentConfig.suggestions.slice(0, 2).map((suggestion, index) => (
-                  <Badge
-                    key={index}
-                    variant="secondary"
-                    className="cursor-pointer hover:bg-secondary/80 text-xs"
-                    onClick={() => handleSuggestionClick(suggestion)}
-                  >
-                    {suggestion}
-                  </Badge>
-                ))}
-              </div>
+        {/* Input Area */}
+        <div className="border-t p-3 flex-shrink-0">
+          <OfflineNotice className="mb-2" />
+          <div className="flex space-x-2">
+            <div className="relative flex-1">
+              {palette.length > 0 && (
+                <div className="absolute bottom-full left-0 right-0 mb-1 max-h-60 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md z-10">
+                  <p className="px-2 py-1 text-xs text-muted-foreground">
+                    {paletteToken.trigger === '/' ? `${agentConfig.label} commands` : paletteToken.trigger === '#' ? 'Tickets' : 'Epics'}
+                  </p>
+                  {palette.map((item, index) => (
+                    <button
+                      key={item.insert}
+                      type="button"
+                      className={cn(
+                        "flex w-full items-baseline gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                        index === paletteIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                      )}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => choosePaletteItem(item)}
+                    >
+                      <span className="font-mono text-xs flex-shrink-0">{item.label}</span>
+                      {item.detail && <span className="truncate text-muted-foreground">{item.detail}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <Input
+                ref={inputRef}
+                placeholder={`Message ${agentConfig.name}... (/ commands, # tickets, @ epics)`}
+                value={inputMessage}
+                onChange={(e) => updateInput(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+                onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+                onKeyDown={handleInputKeyDown}
+                onBlur={() => setPaletteDismissed(true)}
+                onFocus={() => setPaletteDismissed(false)}
+                disabled={isLoading}
+              />
             </div>
-          </CardContent>
-        </Card>
+            {isLoading ? (
+              <Button onClick={stopStream} size="sm" variant="outline" title="Stop response">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={sendMessage}
+                size="sm"
+                disabled={!inputMessage.trim() || isOffline}
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+              
+          <div className="flex flex-wrap gap-1">
+            {agentConfig.suggestions.slice(0, 2).map((suggestion, index) => (
+              <Badge
+                key={index}
+                variant="secondary"
+                className="cursor-pointer hover:bg-secondary/80 text-xs"
+                onClick={() => handleSuggestionClick(suggestion)}
+              >
+                {suggestion}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  if (variant === 'embedded') return conversation;
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50" style={{ zIndex: 9999 }}>
+      <div className="absolute right-0 top-0 h-full w-96 bg-card border-l shadow-kanban-focus">
+        {conversation}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { cloneBoard, deleteBoard } from '@/lib/boardLifecycle';
+import type { Board } from '@/lib/boardRepository';
+
+interface CloneBoardDialogProps {
+  board: Board | null;
+  onClose: () => void;
+  onCloned: (clone: Board) => void;
+}
+
+export function CloneBoardDialog({ board, onClose, onCloned }: CloneBoardDialogProps) {
+  const [name, setName] = useState('');
+  const [includeTickets, setIncludeTickets] = useState(false);
+  const [isCloning, setIsCloning] = useState(false);
+
+  useEffect(() => {
+    if (!board) return;
+    setName(`${board.name} (copy)`);
+    setIncludeTickets(false);
+  }, [board]);
+
+  const handleClone = async () => {
+    if (!board || !name.trim()) return;
+    setIsCloning(true);
+    try {
+      const clone = await cloneBoard(board, { name, includeTickets });
+      toast({ title: 'Board cloned', description: clone.name });
+      onCloned(clone);
+      onClose();
+    } catch (error) {
+      console.error('Failed to clone board:', error);
+      toast({
+        title: 'Could not clone board',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!board} onOpenChange={(open) => !open && !isCloning && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Clone Board</DialogTitle>
+          <DialogDescription>
+            The copy gets this board's documentation, columns and pipeline settings. Conversations are not copied.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="clone-name">Board Name</Label>
+            <Input
+              id="clone-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleClone()}
+            />
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="clone-tickets"
+              checked={includeTickets}
+              onCheckedChange={(checked) => setIncludeTickets(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="clone-tickets">Copy epics and tickets</Label>
+              <p className="text-xs text-muted-foreground">
+                Every ticket starts over in the first column, without agent reports.
+              </p>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isCloning}>
+            Cancel
+          </Button>
+          <Button onClick={handleClone} disabled={!name.trim() || isCloning}>
+            {isCloning && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Clone Board
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DeleteBoardDialogProps {
+  board: Board | null;
+  onClose: () => void;
+  onDeleted: (board: Board) => void;
+}
+
+export function DeleteBoardDialog({ board, onClose, onDeleted }: DeleteBoardDialogProps) {
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the delete has gone through
+    e.preventDefault();
+    if (!board) return;
+    setIsDeleting(true);
+    try {
+      await deleteBoard(board);
+      toast({ title: 'Board deleted', description: board.name });
+      onDeleted(board);
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete board:', error);
+      toast({
+        title: 'Could not delete board',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!board} onOpenChange={(open) => !open && !isDeleting && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{board?.name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently removes the board with its documentation, epics, tickets and conversations.
+            Archive it instead to keep them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isDeleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Delete Board
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Settings, WifiOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import type { ConnectionStatus } from '@/lib/connectionMonitor';
+
+const statusConfig: Record<ConnectionStatus, { label: string; dot: string }> = {
+  checking: { label: 'Connecting', dot: 'bg-muted-foreground animate-pulse' },
+  online: { label: 'Online', dot: 'bg-success' },
+  degraded: { label: 'Degraded', dot: 'bg-warning' },
+  offline: { label: 'Offline', dot: 'bg-destructive' }
+};
+
+export function ConnectionIndicator() {
+  const { status, baseUrl, lastChecked, latencyMs, detail, checkNow } = useConnectionStatus();
+  const config = statusConfig[status];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2" aria-label={`Backend ${config.label.toLowerCase()}`}>
+          <span className={cn('w-2 h-2 rounded-full', config.dot)} />
+          {config.label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3 text-sm">
+        <div>
+          <p className="font-medium">Backend {config.label.toLowerCase()}</p>
+          <p className="text-muted-foreground break-all">{baseUrl}</p>
+        </div>
+        {detail && <p>{detail}</p>}
+        <div className="text-xs text-muted-foreground space-y-1">
+          {latencyMs !== null && <p>Response time: {latencyMs} ms</p>}
+          {lastChecked && <p>Last checked: {lastChecked.toLocaleTimeString()}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => checkNow()} disabled={status === 'checking'}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Check Now
+          </Button>
+          <Button size="sm" variant="ghost" asChild>
+            <Link to="/settings">
+              <Settings className="w-4 h-4 mr-2" />
+              Settings
+            </Link>
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Shown in place of agent controls while the backend cannot be reached
+export function OfflineNotice({ className }: { className?: string }) {
+  const { isOffline, baseUrl } = useConnectionStatus();
+  if (!isOffline) return null;
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <WifiOff className="h-4 w-4" />
+      <AlertDescription>
+        The agent backend at {baseUrl} is unreachable, so agent actions are disabled.{' '}
+        <Link to="/settings" className="underline">Check the backend URL</Link>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,130 +1,191 @@
-import React from 'react';
-import { 
+import React, { useMemo, useRef, useState } from 'react';
+import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { 
-  FileText, 
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  FileText,
+  FileCode,
   Download,
   Edit,
-  Users,
-  Target,
-  Workflow
+  History,
+  Loader2,
+  Printer,
+  RotateCcw,
+  X
 } from 'lucide-react';
+import { FormattedMessage } from './FormattedMessage';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+import { splitSections } from '@/lib/documentSections';
+import {
+  diffLines,
+  documentVersions,
+  versionSourceLabels,
+  type DiffKind,
+  type DocVersion,
+  type VersionSource
+} from '@/lib/documentVersions';
+import {
+  boardToMarkdown,
+  documentationToHtml,
+  documentationToMarkdown,
+  downloadFile,
+  exportFileName,
+  printDocumentation
+} from '@/lib/exporters';
+import type { Board } from '@/lib/boardRepository';
+import type { WorkflowColumn } from '@/lib/workflow';
+import type { Epic, Ticket } from './KanbanBoard';
 
 interface DocumentationModalProps {
   isOpen: boolean;
   onClose: () => void;
+  board: Board;
+  // For the board report export
+  epics: Epic[];
+  tickets: Ticket[];
+  columns: WorkflowColumn[];
+  onSave: (content: string, source: VersionSource, note?: string) => Promise<void>;
 }
 
-const mockDocumentation = {
-  overview: `
-# Development Team Workflow Documentation
-
-## Project Overview
-This document outlines the AI-powered development workflow for our software team, utilizing specialized AI agents for each role in the development process.
-
-## Team Structure
-- **Business Analyst**: Requirements gathering and documentation
-- **Product Manager**: Epic creation and story prioritization  
-- **Developer**: Implementation and code review
-- **QA Engineer**: Testing and quality assurance
-
-## Workflow Process
-1. Analyst generates comprehensive project documentation
-2. PM uses documentation to create epics and user stories
-3. Developer implements stories with AI assistance
-4. QA tests and validates implementations
-5. Continuous feedback and iteration
-
-## Key Benefits
-- Streamlined communication between roles
-- AI-assisted decision making at each stage
-- Improved documentation and traceability
-- Faster development cycles with maintained quality
-`,
-  
-  roles: `
-# Role Definitions and Responsibilities
-
-## Business Analyst AI
-**Primary Function**: Requirements analysis and documentation generation
-- Gather and analyze business requirements
-- Create comprehensive project documentation
-- Define user personas and use cases
-- Establish acceptance criteria
-
-## Product Manager AI  
-**Primary Function**: Product planning and backlog management
-- Transform documentation into actionable epics
-- Prioritize user stories based on business value
-- Plan sprint backlogs and roadmaps
-- Coordinate cross-functional requirements
-
-## Developer AI
-**Primary Function**: Code implementation and technical guidance
-- Implement user stories with best practices
-- Provide code review and suggestions
-- Generate unit tests and documentation
-- Suggest architectural improvements
-
-## QA Engineer AI
-**Primary Function**: Quality assurance and testing
-- Create comprehensive test cases
-- Execute testing protocols
-- Report and track bugs
-- Validate acceptance criteria compliance
-`,
-
-  workflow: `
-# Detailed Workflow Process
-
-## Phase 1: Analysis & Documentation
-1. **Analyst Role**: Generate project documentation
-   - Use "Generate project documentation" command
-   - Create user stories from requirements
-   - Define acceptance criteria and success metrics
-
-## Phase 2: Planning & Prioritization  
-2. **PM Role**: Create epics and stories
-   - Use documentation as context
-   - Generate epics from business requirements
-   - Prioritize based on business value and dependencies
-   - Plan sprint capacity and timeline
-
-## Phase 3: Development & Implementation
-3. **Developer Role**: Implement features
-   - Review story requirements and acceptance criteria
-   - Use "dev implement story X.Y" command for implementation
-   - Review generated code and make adjustments
-   - Update story status and move to testing
-
-## Phase 4: Testing & Quality Assurance
-4. **QA Role**: Test and validate
-   - Review stories in "Ready for Testing" status
-   - Create and execute test cases
-   - Report bugs or approve for production
-   - Ensure all acceptance criteria are met
-
-## Continuous Iteration
-- Regular feedback loops between all roles
-- Documentation updates based on learnings
-- Process improvements and optimization
-- Knowledge sharing across the team
-`
+type DocView = 'read' | 'edit' | 'history';
+
+const diffStyles: Record<DiffKind, { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15', right: 'bg-muted/40' },
+  added: { left: 'bg-muted/40', right: 'bg-green-500/15' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' }
 };
 
-export function DocumentationModal({ isOpen, onClose }: DocumentationModalProps) {
+const formatSavedAt = (version: DocVersion) => new Date(version.savedAt).toLocaleString();
+
+interface VersionDiffProps {
+  before: DocVersion;
+  after: DocVersion;
+}
+
+// Two columns of numbered lines, older version on the left
+function VersionDiff({ before, after }: VersionDiffProps) {
+  const rows = useMemo(() => diffLines(before.content, after.content), [before, after]);
+  const changes = rows.filter(row => row.kind !== 'same').length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {changes === 0 ? 'No differences' : `${changes} changed ${changes === 1 ? 'line' : 'lines'}`}
+      </p>
+      <div className="rounded-md border font-mono text-xs">
+        <div className="grid grid-cols-2 border-b bg-muted/50 text-muted-foreground">
+          <div className="px-2 py-1 border-r">{formatSavedAt(before)}</div>
+          <div className="px-2 py-1">{formatSavedAt(after)}</div>
+        </div>
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2">
+            {(['left', 'right'] as const).map(side => {
+              const line = row[side];
+              return (
+                <div key={side} className={cn('flex min-w-0', side === 'left' && 'border-r', diffStyles[row.kind][side])}>
+                  <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">{line?.number}</span>
+                  <span className="whitespace-pre-wrap break-words min-w-0">{line?.text}</span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function DocumentationModal({ isOpen, onClose, board, epics, tickets, columns, onSave }: DocumentationModalProps) {
+  const [view, setView] = useState<DocView>('read');
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous');
+  const sectionRefs = useRef(new Map<string, HTMLElement>());
+
+  const documentation = board.documentation ?? '';
+  const hasDocumentation = !!documentation.trim();
+  const sections = useMemo(() => splitSections(documentation), [documentation]);
+  const versions = documentVersions(board);
+  const current = versions[versions.length - 1];
+  const selected = versions.find(version => version.id === selectedVersionId) ?? current;
+  const baseline = compareTo === 'current' ? current : versions[versions.indexOf(selected) - 1];
+
+  const startEditing = () => {
+    setDraft(documentation);
+    setNote('');
+    setView('edit');
+  };
+
+  const exportHtml = (run: () => Promise<void>) => {
+    run().catch(err => {
+      console.error('Documentation export failed:', err);
+      toast({
+        title: 'Could not export documentation',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive'
+      });
+    });
+  };
+
+  const save = async (content: string, source: VersionSource, versionNote: string | undefined, message: string) => {
+    setIsSaving(true);
+    try {
+      await onSave(content, source, versionNote);
+      toast({ title: message });
+      return true;
+    } catch (err) {
+      console.error('Failed to save documentation:', err);
+      toast({
+        title: 'Could not save documentation',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await save(draft, 'edit', note.trim() || undefined, 'Documentation saved')) {
+      setSelectedVersionId(null);
+      setView('read');
+    }
+  };
+
+  const handleRestore = async (version: DocVersion) => {
+    if (await save(version.content, 'restore', `Restored the version from ${formatSavedAt(version)}`, 'Version restored')) {
+      setSelectedVersionId(null);
+      setCompareTo('previous');
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl h-[90vh] flex flex-col">
+      <DialogContent className="max-w-5xl h-[90vh] flex flex-col">
         <DialogHeader>
           <div className="flex items-center justify-between">
             <DialogTitle className="flex items-center space-x-2">
@@ -132,93 +193,231 @@ export function DocumentationModal({ isOpen, onClose }: DocumentationModalProps)
               <span>Project Documentation</span>
             </DialogTitle>
             <DialogDescription className="sr-only">
-              Comprehensive project documentation including overview, roles, and workflow
+              The board's project documentation, with editing and version history
             </DialogDescription>
-            <div className="flex space-x-2">
-              <Button variant="outline" size="sm">
-                <Edit className="w-4 h-4 mr-2" />
-                Edit
-              </Button>
-              <Button variant="outline" size="sm">
-                <Download className="w-4 h-4 mr-2" />
-                Export
-              </Button>
+            <div className="flex space-x-2 mr-6">
+              {view === 'read' ? (
+                <>
+                  <Button variant="outline" size="sm" onClick={startEditing}>
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setView('history')} disabled={versions.length === 0}>
+                    <History className="w-4 h-4 mr-2" />
+                    History
+                    {versions.length > 0 && <Badge variant="secondary" className="ml-2 px-1.5">{versions.length}</Badge>}
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <Download className="w-4 h-4 mr-2" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Documentation</DropdownMenuLabel>
+                      <DropdownMenuItem
+                        disabled={!hasDocumentation}
+                        onClick={() => downloadFile(exportFileName(board, 'documentation', 'md'), documentationToMarkdown(board), 'text/markdown')}
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Markdown (.md)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={!hasDocumentation}
+                        onClick={() => exportHtml(async () =>
+                          downloadFile(exportFileName(board, 'documentation', 'html'), await documentationToHtml(board), 'text/html')
+                        )}
+                      >
+                        <FileCode className="w-4 h-4 mr-2" />
+                        HTML (.html)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={!hasDocumentation} onClick={() => exportHtml(() => printDocumentation(board))}>
+                        <Printer className="w-4 h-4 mr-2" />
+                        Print or save as PDF
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>Board</DropdownMenuLabel>
+                      <DropdownMenuItem
+                        onClick={() => downloadFile(
+                          exportFileName(board, 'board-report', 'md'),
+                          boardToMarkdown(board, epics, tickets, columns),
+                          'text/markdown'
+                        )}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Board report (.md)
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setView('read')} disabled={isSaving}>
+                  <X className="w-4 h-4 mr-2" />
+                  {view === 'edit' ? 'Discard Changes' : 'Close History'}
+                </Button>
+              )}
             </div>
           </div>
         </DialogHeader>
-        
-        <div className="flex-1 overflow-hidden">
-          <Tabs defaultValue="overview" className="h-full flex flex-col">
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="overview" className="flex items-center space-x-2">
-                <Target className="w-4 h-4" />
-                <span>Overview</span>
-              </TabsTrigger>
-              <TabsTrigger value="roles" className="flex items-center space-x-2">
-                <Users className="w-4 h-4" />
-                <span>Roles</span>
-              </TabsTrigger>
-              <TabsTrigger value="workflow" className="flex items-center space-x-2">
-                <Workflow className="w-4 h-4" />
-                <span>Workflow</span>
-              </TabsTrigger>
-            </TabsList>
-            
-            <div className="flex-1 overflow-hidden mt-4">
-              <TabsContent value="overview" className="h-full mt-0">
-                <Card className="h-full">
-                  <CardHeader>
-                    <CardTitle>Project Overview</CardTitle>
-                  </CardHeader>
-                  <CardContent className="h-full overflow-hidden p-4">
-                    <ScrollArea className="h-[500px] w-full">
-                      <div className="prose prose-sm max-w-none pr-4">
-                        <pre className="whitespace-pre-wrap text-sm bg-muted p-4 rounded-lg break-words">
-                          {mockDocumentation.overview}
-                        </pre>
-                      </div>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-              
-              <TabsContent value="roles" className="h-full mt-0">
-                <Card className="h-full">
-                  <CardHeader>
-                    <CardTitle>Role Definitions</CardTitle>
-                  </CardHeader>
-                  <CardContent className="h-full overflow-hidden p-4">
-                    <ScrollArea className="h-[500px] w-full">
-                      <div className="prose prose-sm max-w-none pr-4">
-                        <pre className="whitespace-pre-wrap text-sm bg-muted p-4 rounded-lg break-words">
-                          {mockDocumentation.roles}
-                        </pre>
-                      </div>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
+
+        {view === 'read' && (
+          hasDocumentation ? (
+            <div className="flex-1 flex gap-4 overflow-hidden">
+              {sections.length > 1 && (
+                <nav className="w-52 shrink-0 overflow-y-auto border-r pr-3 space-y-1">
+                  {sections.map(section => (
+                    <button
+                      key={section.id}
+                      onClick={() => sectionRefs.current.get(section.id)?.scrollIntoView({ behavior: 'smooth', block: 'start' })}
+                      className={cn(
+                        'block w-full truncate rounded px-2 py-1 text-left text-sm hover:bg-muted',
+                        section.level > 1 && 'pl-4 text-muted-foreground'
+                      )}
+                      title={section.title}
+                    >
+                      {section.title}
+                    </button>
+                  ))}
+                </nav>
+              )}
+              <ScrollArea className="flex-1">
+                <div className="space-y-6 pr-4">
+                  {sections.map(section => (
+                    <section
+                      key={section.id}
+                      ref={(element) => {
+                        if (element) sectionRefs.current.set(section.id, element);
+                        else sectionRefs.current.delete(section.id);
+                      }}
+                    >
+                      <FormattedMessage content={section.content} className="text-sm" />
+                    </section>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-center text-muted-foreground">
+              <FileText className="w-12 h-12 mb-4 opacity-50" />
+              <p className="mb-4">This board has no documentation yet.</p>
+              <Button variant="outline" onClick={startEditing}>
+                <Edit className="w-4 h-4 mr-2" />
+                Write Documentation
+              </Button>
+            </div>
+          )
+        )}
+
+        {view === 'edit' && (
+          <div className="flex-1 flex flex-col gap-3 overflow-hidden">
+            <Tabs defaultValue="write" className="flex-1 flex flex-col overflow-hidden">
+              <TabsList className="w-fit">
+                <TabsTrigger value="write">Write</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
+              <TabsContent value="write" className="flex-1 overflow-hidden">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="h-full resize-none font-mono text-sm"
+                  placeholder="# Project overview"
+                />
               </TabsContent>
-              
-              <TabsContent value="workflow" className="h-full mt-0">
-                <Card className="h-full">
-                  <CardHeader>
-                    <CardTitle>Workflow Process</CardTitle>
-                  </CardHeader>
-                  <CardContent className="h-full overflow-hidden p-4">
-                    <ScrollArea className="h-[500px] w-full">
-                      <div className="prose prose-sm max-w-none pr-4">
-                        <pre className="whitespace-pre-wrap text-sm bg-muted p-4 rounded-lg break-words">
-                          {mockDocumentation.workflow}
-                        </pre>
-                      </div>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
+              <TabsContent value="preview" className="flex-1 overflow-hidden">
+                <ScrollArea className="h-full rounded-md border p-4">
+                  <FormattedMessage content={draft || '_Nothing to preview_'} className="text-sm" />
+                </ScrollArea>
               </TabsContent>
+            </Tabs>
+            <div className="flex items-center gap-2">
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Describe this change (optional)"
+                className="flex-1"
+              />
+              <Button onClick={handleSave} disabled={isSaving || draft === documentation}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Version
+              </Button>
             </div>
-          </Tabs>
-        </div>
+          </div>
+        )}
+
+        {view === 'history' && selected && (
+          <div className="flex-1 flex gap-4 overflow-hidden">
+            <ScrollArea className="w-64 shrink-0 border-r pr-3">
+              <div className="space-y-1">
+                {[...versions].reverse().map(version => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedVersionId(version.id)}
+                    className={cn(
+                      'w-full rounded-md border px-3 py-2 text-left hover:bg-muted',
+                      version === selected ? 'border-primary bg-primary/5' : 'border-transparent'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{versionSourceLabels[version.source]}</span>
+                      {version === current && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{formatSavedAt(version)}</p>
+                    {version.note && <p className="mt-1 text-xs line-clamp-2">{version.note}</p>}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex-1 flex flex-col gap-3 overflow-hidden">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Compare with</span>
+                <Select value={compareTo} onValueChange={(value) => setCompareTo(value as 'previous' | 'current')}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="previous">Previous version</SelectItem>
+                    <SelectItem value="current">Current version</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="flex-1" />
+                <Button
+                  size="sm"
+                  onClick={() => handleRestore(selected)}
+                  disabled={isSaving || selected === current}
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                  Restore This Version
+                </Button>
+              </div>
+              <Tabs defaultValue="diff" className="flex-1 flex flex-col overflow-hidden">
+                <TabsList className="w-fit">
+                  <TabsTrigger value="diff">Changes</TabsTrigger>
+                  <TabsTrigger value="content">Content</TabsTrigger>
+                </TabsList>
+                <TabsContent value="diff" className="flex-1 overflow-hidden">
+                  <ScrollArea className="h-full">
+                    {baseline && baseline !== selected ? (
+                      compareTo === 'current'
+                        ? <VersionDiff before={selected} after={baseline} />
+                        : <VersionDiff before={baseline} after={selected} />
+                    ) : (
+                      <p className="py-8 text-center text-sm text-muted-foreground">
+                        {compareTo === 'current' ? 'This is the current version.' : 'This is the first version.'}
+                      </p>
+                    )}
+                  </ScrollArea>
+                </TabsContent>
+                <TabsContent value="content" className="flex-1 overflow-hidden">
+                  <ScrollArea className="h-full rounded-md border p-4">
+                    <FormattedMessage content={selected.content} className="text-sm" />
+                  </ScrollArea>
+                </TabsContent>
+              </Tabs>
+            </div>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -1,116 +1,118 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Highlight, themes } from 'prism-react-renderer';
+import { Check, Copy } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
 interface FormattedMessageProps {
   content: string;
+  className?: string;
 }
 
-export function FormattedMessage({ content }: FormattedMessageProps) {
-  // Convert markdown-like formatting to JSX
-  const formatText = (text: string) => {
-    // Split by lines for processing
-    const lines = text.split('\n');
-    const elements: React.ReactNode[] = [];
-    
-    lines.forEach((line, index) => {
-      if (line.trim() === '') {
-        elements.push(<br key={`br-${index}`} />);
-        return;
-      }
+// Anything else (javascript:, data:, relative paths into the app) is rendered as plain text
+const SAFE_LINK = /^(https?:|mailto:)/i;
 
-      // Check for headings
-      if (line.startsWith('### ')) {
-        elements.push(
-          <h4 key={index} className="font-semibold text-sm mt-3 mb-2 break-words">
-            {line.substring(4)}
-          </h4>
-        );
-      } else if (line.startsWith('## ')) {
-        elements.push(
-          <h3 key={index} className="font-semibold text-base mt-4 mb-2 break-words">
-            {line.substring(3)}
-          </h3>
-        );
-      } else if (line.startsWith('# ')) {
-        elements.push(
-          <h2 key={index} className="font-bold text-lg mt-4 mb-3 break-words">
-            {line.substring(2)}
-          </h2>
-        );
-      } else if (line.startsWith('**') && line.endsWith('**') && line.length > 4) {
-        // Full line bold
-        elements.push(
-          <p key={index} className="font-semibold my-2 break-words">
-            {line.slice(2, -2)}
-          </p>
-        );
-      } else if (line.match(/^\d+\.\s/)) {
-        // Numbered list
-        elements.push(
-          <div key={index} className="ml-4 my-1 break-words">
-            {formatInlineText(line)}
-          </div>
-        );
-      } else if (line.startsWith('- ') || line.startsWith('* ')) {
-        // Bullet list
-        elements.push(
-          <div key={index} className="ml-4 my-1 flex break-words">
-            <span className="mr-2 flex-shrink-0">•</span>
-            <span className="break-words">{formatInlineText(line.substring(2))}</span>
-          </div>
-        );
-      } else if (line.startsWith('> ')) {
-        // Quote
-        elements.push(
-          <div key={index} className="border-l-2 border-muted-foreground pl-3 my-2 italic text-muted-foreground break-words">
-            {formatInlineText(line.substring(2))}
-          </div>
-        );
-      } else {
-        // Regular paragraph
-        elements.push(
-          <p key={index} className="my-2 break-words">
-            {formatInlineText(line)}
-          </p>
-        );
-      }
-    });
+function CodeBlock({ code, language }: { code: string; language?: string }) {
+  const [copied, setCopied] = useState(false);
 
-    return elements;
-  };
-
-  const formatInlineText = (text: string): React.ReactNode => {
-    // Handle inline formatting
-    const parts: React.ReactNode[] = [];
-    let currentIndex = 0;
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
 
-    // Bold text **text**
-    const boldRegex = /\*\*(.*?)\*\*/g;
-    let match;
+  const copy = () => {
+    navigator.clipboard?.writeText(code).then(() => setCopied(true)).catch(() => undefined);
+  };
 
-    while ((match = boldRegex.exec(text)) !== null) {
-      // Add text before the match
-      if (match.index > currentIndex) {
-        parts.push(text.substring(currentIndex, match.index));
-      }
-      
-      // Add bold text
-      parts.push(
-        <strong key={`bold-${match.index}`}>
-          {match[1]}
-        </strong>
-      );
-      
-      currentIndex = match.index + match[0].length;
-    }
+  return (
+    <div className="my-3 rounded-lg border bg-[#1e1e1e] text-xs">
+      <div className="flex items-center justify-between border-b border-white/10 px-3 py-1 text-[11px] text-white/60">
+        <span className="font-mono">{language ?? 'text'}</span>
+        <button
+          type="button"
+          onClick={copy}
+          className="flex items-center gap-1 rounded px-1.5 py-0.5 hover:bg-white/10 hover:text-white"
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <Highlight theme={themes.vsDark} code={code} language={language ?? 'text'}>
+        {({ className, style, tokens, getLineProps, getTokenProps }) => (
+          <pre className={cn(className, "overflow-x-auto p-3 font-mono leading-relaxed")} style={{ ...style, background: 'transparent' }}>
+            {tokens.map((line, i) => (
+              <div key={i} {...getLineProps({ line })}>
+                {line.map((token, key) => <span key={key} {...getTokenProps({ token })} />)}
+              </div>
+            ))}
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  );
+}
 
-    // Add remaining text
-    if (currentIndex < text.length) {
-      parts.push(text.substring(currentIndex));
+const components: Components = {
+  h1: ({ children }) => <h2 className="font-bold text-lg mt-4 mb-3 break-words">{children}</h2>,
+  h2: ({ children }) => <h3 className="font-semibold text-base mt-4 mb-2 break-words">{children}</h3>,
+  h3: ({ children }) => <h4 className="font-semibold text-sm mt-3 mb-2 break-words">{children}</h4>,
+  h4: ({ children }) => <h5 className="font-semibold text-sm mt-3 mb-1 break-words">{children}</h5>,
+  p: ({ children }) => <p className="my-2 break-words">{children}</p>,
+  ul: ({ children, className }) => (
+    <ul className={cn("my-2 space-y-1", className?.includes('contains-task-list') ? "pl-1" : "list-disc pl-5")}>
+      {children}
+    </ul>
+  ),
+  ol: ({ children, start }) => <ol start={start} className="my-2 list-decimal space-y-1 pl-5">{children}</ol>,
+  li: ({ children, className }) => (
+    <li className={cn("break-words", className?.includes('task-list-item') && "list-none flex items-start gap-2")}>
+      {children}
+    </li>
+  ),
+  input: ({ type, checked }) => type === 'checkbox'
+    ? <input type="checkbox" checked={!!checked} disabled readOnly className="mt-1 h-3.5 w-3.5 accent-primary" />
+    : null,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-muted-foreground pl-3 my-2 italic text-muted-foreground">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-4 border-border" />,
+  a: ({ href, children }) => href && SAFE_LINK.test(href)
+    ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-2 break-all">
+        {children}
+      </a>
+    )
+    : <span>{children}</span>,
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto rounded-lg border">
+      <table className="w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-muted">{children}</thead>,
+  th: ({ children, style }) => <th style={style} className="border-b px-3 py-2 text-left font-semibold">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border-b px-3 py-2 align-top">{children}</td>,
+  // Fenced blocks are rendered whole by `pre`; anything reaching `code` is inline
+  code: ({ children }) => <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{children}</code>,
+  pre: ({ children }) => {
+    const code = React.Children.toArray(children)[0];
+    if (!React.isValidElement<{ className?: string; children?: React.ReactNode }>(code)) {
+      return <pre className="my-3 overflow-x-auto rounded-lg bg-muted p-3 text-xs">{children}</pre>;
     }
+    const language = /language-([\w-]+)/.exec(code.props.className ?? '')?.[1];
+    return <CodeBlock code={String(code.props.children ?? '').replace(/\n$/, '')} language={language} />;
+  }
+};
 
-    // If no formatting was found, return the original text
-    return parts.length > 1 ? parts : text;
-  };
-
-  return <div className="formatted-message break-words overflow-wrap-anywhere">{formatText(content)}</div>;
+// GitHub-flavoured Markdown for agent replies and generated documents; raw HTML is never rendered
+export function FormattedMessage({ content, className }: FormattedMessageProps) {
+  return (
+    <div className={cn("formatted-message break-words overflow-wrap-anywhere", className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
 }
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,16 +17,37 @@ import {
   FileText,
   Play,
   CheckCircle,
-  Clock,
   AlertCircle,
-  User,
-  Settings,
   Plus,
   ArrowLeft,
-  ChevronDown
+  ChevronDown,
+  Bot,
+  Columns3,
+  Users,
+  Workflow,
+  Settings
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { apiService } from '@/lib/api';
+import { getRoleStyle } from '@/lib/roles';
+import { requestQaVerdict, applyTestReport, type TestReport } from '@/lib/qaVerdict';
+import { requestImplementation, applyImplementation, type ImplementationRecord } from '@/lib/devImplementation';
+import type { MessageSource } from '@/lib/messageActions';
+import {
+  checkMove,
+  columnIcons,
+  findColumn,
+  resolveWorkflowStages,
+  type TransitionRule,
+  type WorkflowColumn
+} from '@/lib/workflow';
+import { compareRank, rankBetween } from '@/lib/ranking';
+import { toast } from '@/hooks/use-toast';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { useAbortable } from '@/hooks/use-abortable';
+import { useRoles } from '@/hooks/use-roles';
+import { isAbortError } from '@/lib/api';
+import { describeError, type ErrorDescription } from '@/lib/apiErrors';
+import { ConnectionIndicator } from './ConnectionIndicator';
 import {
   DndContext,
   DragEndEvent,
@@ -48,8 +69,10 @@ import {
 import { useDroppable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 
-export type Role = 'analyst' | 'pm' | 'dev' | 'qa';
-export type TicketStatus = 'backlog' | 'in-progress' | 'ready-for-testing' | 'done';
+// Id of an agent role from the backend's /roles; 'analyst', 'pm', 'dev' and 'qa' are always available
+export type Role = string;
+// Id of one of the board's workflow columns
+export type TicketStatus = string;
 
 export interface Epic {
   id: string;
@@ -67,6 +90,15 @@ export interface Ticket {
   priority: 'low' | 'medium' | 'high' | 'critical';
   storyPoints?: number;
   epicId?: string;
+  acceptanceCriteria?: string[];
+  testReports?: TestReport[];
+  implementations?: ImplementationRecord[];
+  // Chat message the ticket was created from
+  source?: MessageSource;
+  // Ids of board documentation sections linked to this ticket; see lib/documentSections
+  prdSections?: string[];
+  // Position within its column; see lib/ranking
+  rank?: string;
 }
 
 interface KanbanBoardProps {
@@ -74,51 +106,27 @@ interface KanbanBoardProps {
   onRoleChange: (role: Role) => void;
   onTicketClick: (ticket: Ticket) => void;
   onChatOpen: (role: Role) => void;
+  onTeamChatOpen: () => void;
   onDocumentationOpen: () => void;
   onTicketCreate: () => void;
+  onPipelineOpen: () => void;
+  onWorkflowSettingsOpen: () => void;
+  onWorkflowsOpen: () => void;
+  onBoardSettingsOpen: () => void;
+  boardName?: string;
+  isPipelineActive: boolean;
+  columns: WorkflowColumn[];
+  transitions: TransitionRule[];
   tickets: Ticket[];
   epics: Epic[];
-  onTicketsChange: (tickets: Ticket[]) => void;
+  // Takes an updater so slow agent results apply to the latest tickets
+  onTicketsChange: (update: (tickets: Ticket[]) => Ticket[]) => void;
   onEpicsChange: (epics: Epic[]) => void;
 }
 
 // Start with empty tickets - PM will create them
 const initialTickets: Ticket[] = [];
 
-const roleConfig = {
-  analyst: { 
-    label: 'Business Analyst', 
-    color: 'bg-role-analyst', 
-    gradient: 'bg-gradient-role-analyst',
-    icon: FileText 
-  },
-  pm: { 
-    label: 'Product Manager', 
-    color: 'bg-role-pm', 
-    gradient: 'bg-gradient-role-pm',
-    icon: User 
-  },
-  dev: { 
-    label: 'Developer', 
-    color: 'bg-role-dev', 
-    gradient: 'bg-gradient-role-dev',
-    icon: Settings 
-  },
-  qa: { 
-    label: 'QA Engineer', 
-    color: 'bg-role-qa', 
-    gradient: 'bg-gradient-role-qa',
-    icon: CheckCircle 
-  }
-};
-
-const statusConfig = {
-  backlog: { label: 'Backlog', icon: Clock },
-  'in-progress': { label: 'In Progress', icon: Play },
-  'ready-for-testing': { label: 'Ready for Testing', icon: AlertCircle },
-  done: { label: 'Done', icon: CheckCircle }
-};
-
 const priorityConfig = {
   low: { color: 'bg-muted', label: 'Low' },
   medium: { color: 'bg-warning', label: 'Medium' },
@@ -212,7 +220,7 @@ function DraggableTicket({ ticket, onTicketClick, getActionButton }: DraggableTi
             <Avatar className="w-6 h-6">
               <AvatarFallback className={cn(
                 "text-xs text-white",
-                roleConfig[ticket.assignee].color
+                getRoleStyle(ticket.assignee).color
               )}>
                 {ticket.assignee.toUpperCase().slice(0, 2)}
               </AvatarFallback>
@@ -236,18 +244,33 @@ export function KanbanBoard({
   onRoleChange,
   onTicketClick,
   onChatOpen,
+  onTeamChatOpen,
   onDocumentationOpen,
   onTicketCreate,
+  onPipelineOpen,
+  onWorkflowSettingsOpen,
+  onWorkflowsOpen,
+  onBoardSettingsOpen,
+  boardName,
+  isPipelineActive,
+  columns,
+  transitions,
   tickets,
   epics,
   onTicketsChange,
   onEpicsChange
 }: KanbanBoardProps) {
   const navigate = useNavigate();
+  const { roles, getRole } = useRoles();
+  const activeRole = getRole(currentRole);
   const [implementingTicketId, setImplementingTicketId] = useState<string | null>(null);
   const [testingTicketId, setTestingTicketId] = useState<string | null>(null);
-  const [implementationError, setImplementationError] = useState<string | null>(null);
+  const [implementationError, setImplementationError] = useState<ErrorDescription | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
+  const { isOffline } = useConnectionStatus();
+  // Agent replies that arrive after the board is gone are dropped
+  const { runAbortable } = useAbortable();
+  const offlineReason = isOffline ? 'The agent backend is offline' : undefined;
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -258,8 +281,28 @@ export function KanbanBoard({
     })
   );
 
+  const stages = resolveWorkflowStages(columns);
+  const policy = { columns, transitions };
+
+  // Agent replies land many renders later, so they read the live board through a ref
+  const boardRef = React.useRef({ tickets, policy, stages });
+  boardRef.current = { tickets, policy, stages };
+
+  // Explain a rejected move, or warn when a soft WIP limit is exceeded; returns whether the move may go ahead
+  const confirmMove = (ticket: Ticket, to: TicketStatus, role: Role) => {
+    const check = checkMove(boardRef.current.policy, boardRef.current.tickets, ticket, to, role);
+    if (!check.allowed) {
+      toast({ title: `Can't move ${ticket.id}`, description: check.reason, variant: 'destructive' });
+      return false;
+    }
+    if (check.warning) {
+      toast({ title: 'WIP limit exceeded', description: check.warning });
+    }
+    return true;
+  };
+
   const getTicketsByStatus = (status: TicketStatus) =>
-    tickets.filter(ticket => ticket.status === status);
+    tickets.filter(ticket => ticket.status === status).sort(compareRank);
 
   // Drag and drop handlers
   const handleDragStart = (event: DragStartEvent) => {
@@ -282,66 +325,72 @@ export function KanbanBoard({
 
     // Determine the new status based on the drop target
     let newStatus: TicketStatus;
-    if (overId.includes('backlog')) {
-      newStatus = 'backlog';
-    } else if (overId.includes('in-progress')) {
-      newStatus = 'in-progress';
-    } else if (overId.includes('ready-for-testing')) {
-      newStatus = 'ready-for-testing';
-    } else if (overId.includes('done')) {
-      newStatus = 'done';
-    } else {
+    const targetColumn = overId.startsWith('column-') ? findColumn(columns, overId.slice('column-'.length)) : undefined;
+    const targetTicket = targetColumn ? undefined : tickets.find(ticket => ticket.id === overId);
+    if (targetColumn) {
+      newStatus = targetColumn.id;
+    } else if (targetTicket) {
       // If dropped on another ticket, get the status of that column
-      const targetTicket = tickets.find(ticket => ticket.id === overId);
-      if (targetTicket) {
-        newStatus = targetTicket.status;
-      } else {
-        return; // Invalid drop target
-      }
+      newStatus = targetTicket.status;
+    } else {
+      return; // Invalid drop target
     }
 
-    // Update ticket status if it changed
-    if (activeTicket.status !== newStatus) {
-      const updatedTickets = tickets.map(ticket =>
-        ticket.id === activeId
-          ? { ...ticket, status: newStatus }
-          : ticket
-      );
-      onTicketsChange(updatedTickets);
+    if (activeTicket.status !== newStatus && !confirmMove(activeTicket, newStatus, currentRole)) return;
+
+    // Work out where the ticket lands in the column's order
+    const columnTickets = getTicketsByStatus(newStatus);
+    let ordered: Ticket[];
+    if (!targetTicket) {
+      // Dropped on the column itself: goes to the bottom
+      ordered = [...columnTickets.filter(ticket => ticket.id !== activeId), activeTicket];
+    } else if (activeTicket.status === newStatus) {
+      const oldIndex = columnTickets.findIndex(ticket => ticket.id === activeId);
+      const newIndex = columnTickets.findIndex(ticket => ticket.id === overId);
+      if (oldIndex === newIndex) return;
+      ordered = arrayMove(columnTickets, oldIndex, newIndex);
+    } else {
+      // Coming from another column: takes the place of the ticket it was dropped on
+      ordered = [...columnTickets];
+      ordered.splice(columnTickets.indexOf(targetTicket), 0, activeTicket);
     }
+
+    const position = ordered.findIndex(ticket => ticket.id === activeId);
+    const rank = rankBetween(ordered[position - 1]?.rank, ordered[position + 1]?.rank);
+
+    onTicketsChange(prev => prev.map(ticket =>
+      ticket.id === activeId
+        ? { ...ticket, status: newStatus, rank }
+        : ticket
+    ));
   };
 
   const implementStory = async (ticket: Ticket) => {
+    if (!confirmMove(ticket, stages.testing, 'dev')) return;
+
     setImplementingTicketId(ticket.id);
     setImplementationError(null);
 
     try {
-      // Use the BMAD command format: "dev implement story X.Y"
-      const storyIdentifier = ticket.id.split('.')[1] ? ticket.id : `${ticket.epicId}.${ticket.id.split('.')[0]}`;
-      const command = `dev implement story ${storyIdentifier}`;
-
-      const response = await apiService.chatWithRole('dev', {
-        message: command,
-        context: {
-          ticket_id: ticket.id,
-          ticket_title: ticket.title,
-          ticket_description: ticket.description,
-          current_status: ticket.status
-        }
-      });
+      const result = await runAbortable(signal => requestImplementation(ticket, signal));
 
-      // Update ticket status to ready-for-testing after successful implementation
-      onTicketsChange(tickets.map(t =>
-        t.id === ticket.id
-          ? { ...t, status: 'ready-for-testing' as TicketStatus }
-          : t
-      ));
+      // The ticket may have been moved or removed while the developer agent was working
+      const current = boardRef.current.tickets.find(t => t.id === ticket.id);
+      if (current?.status !== ticket.status) {
+        toast({ title: `Implementation of ${ticket.id} discarded`, description: 'The story left its column while the developer agent was working.' });
+        return;
+      }
+      const latestStages = boardRef.current.stages;
 
-      console.log('Story implementation completed:', response);
+      // Record the work either way; the board may have filled up or changed its rules meanwhile
+      const holdStatus = !confirmMove(current, latestStages.testing, 'dev');
+      onTicketsChange(prev => prev.map(t =>
+        t.id === ticket.id ? applyImplementation(t, result, latestStages, { holdStatus }) : t
+      ));
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to implement story';
-      setImplementationError(errorMessage);
+      if (isAbortError(error)) return;
+      setImplementationError(describeError(error, 'Failed to implement story'));
       console.error('Story implementation failed:', error);
     } finally {
       setImplementingTicketId(null);
@@ -353,29 +402,33 @@ export function KanbanBoard({
     setImplementationError(null);
 
     try {
-      const response = await apiService.chatWithRole('qa', {
-        message: `Please test story ${ticket.id}: ${ticket.title}. Description: ${ticket.description}`,
-        context: {
-          ticket_id: ticket.id,
-          ticket_title: ticket.title,
-          ticket_description: ticket.description,
-          current_status: ticket.status
-        }
-      });
-
-      console.log('Story testing completed:', response);
-
-      // For now, we'll assume the test passes and move to done
-      // In a real implementation, this would be based on QA feedback
-      onTicketsChange(tickets.map(t =>
-        t.id === ticket.id
-          ? { ...t, status: 'done' as TicketStatus }
-          : t
+      const verdict = await runAbortable(signal => requestQaVerdict(ticket, signal));
+
+      // The ticket may have been moved or removed while QA was running
+      const current = boardRef.current.tickets.find(t => t.id === ticket.id);
+      if (!current) return;
+      const latestStages = boardRef.current.stages;
+
+      // Record the report either way; the ticket stays put if the workflow rejects the move
+      const target = verdict.verdict === 'pass' ? latestStages.accepted : verdict.verdict === 'fail' ? latestStages.development : current.status;
+      const holdStatus = !confirmMove(current, target, 'qa');
+      onTicketsChange(prev => prev.map(t =>
+        t.id === ticket.id ? applyTestReport(t, verdict, latestStages, { holdStatus }) : t
       ));
 
+      toast({
+        title: verdict.verdict === 'pass'
+          ? `${ticket.id} passed QA`
+          : verdict.verdict === 'fail'
+          ? `${ticket.id} failed QA with ${verdict.defects.length} defect(s)`
+          : `${ticket.id} is blocked`,
+        description: verdict.summary,
+        variant: verdict.verdict === 'pass' ? 'default' : 'destructive'
+      });
+
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to test story';
-      setImplementationError(errorMessage);
+      if (isAbortError(error)) return;
+      setImplementationError(describeError(error, 'Failed to test story'));
       console.error('Story testing failed:', error);
     } finally {
       setTestingTicketId(null);
@@ -385,7 +438,7 @@ export function KanbanBoard({
 
 
   const assignTicket = (ticketId: string, newAssignee: Role) => {
-    onTicketsChange(tickets.map(ticket =>
+    onTicketsChange(prev => prev.map(ticket =>
       ticket.id === ticketId
         ? { ...ticket, assignee: newAssignee }
         : ticket
@@ -393,7 +446,10 @@ export function KanbanBoard({
   };
 
   const getActionButton = (ticket: Ticket) => {
-    if (currentRole === 'dev' && ticket.status === 'in-progress') {
+    // Agent actions follow the role that owns the ticket's column
+    const owner = findColumn(columns, ticket.status)?.ownerRole;
+
+    if (currentRole === 'dev' && owner === 'dev') {
       const isLoading = implementingTicketId === ticket.id;
       return (
         <Button
@@ -404,7 +460,8 @@ export function KanbanBoard({
             e.stopPropagation();
             implementStory(ticket);
           }}
-          disabled={isLoading}
+          disabled={isLoading || isOffline}
+          title={offlineReason}
         >
           {isLoading ? (
             <Loader2 className="w-4 h-4 mr-1 animate-spin" />
@@ -416,7 +473,7 @@ export function KanbanBoard({
       );
     }
 
-    if (currentRole === 'qa' && ticket.status === 'ready-for-testing') {
+    if (currentRole === 'qa' && owner === 'qa') {
       const isLoading = testingTicketId === ticket.id;
       return (
         <Button
@@ -427,7 +484,8 @@ export function KanbanBoard({
             e.stopPropagation();
             testStory(ticket);
           }}
-          disabled={isLoading}
+          disabled={isLoading || isOffline}
+          title={offlineReason}
         >
           {isLoading ? (
             <Loader2 className="w-4 h-4 mr-1 animate-spin" />
@@ -455,7 +513,8 @@ export function KanbanBoard({
           <div className="border-b bg-destructive/10 px-6 py-2">
             <Alert variant="destructive" className="border-0 bg-transparent">
               <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{implementationError}</AlertDescription>
+              <AlertTitle>{implementationError.title}</AlertTitle>
+              <AlertDescription>{implementationError.message}</AlertDescription>
             </Alert>
           </div>
         )}
@@ -473,8 +532,17 @@ export function KanbanBoard({
               <ArrowLeft className="w-4 h-4" />
             </Button>
             <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-              Development Board
+              {boardName || 'Development Board'}
             </h1>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onBoardSettingsOpen}
+              className="hover:bg-muted p-2"
+              aria-label="Board settings"
+            >
+              <Settings className="w-4 h-4" />
+            </Button>
             {currentRole === 'pm' && (
               <Button
                 variant="outline"
@@ -495,9 +563,43 @@ export function KanbanBoard({
               <FileText className="w-4 h-4 mr-2" />
               Documentation
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onPipelineOpen}
+              className="hover:bg-primary hover:text-primary-foreground"
+            >
+              {isPipelineActive ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Bot className="w-4 h-4 mr-2" />
+              )}
+              Pipeline
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onWorkflowSettingsOpen}
+              className="hover:bg-primary hover:text-primary-foreground"
+            >
+              <Columns3 className="w-4 h-4 mr-2" />
+              Columns
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onWorkflowsOpen}
+              className="hover:bg-primary hover:text-primary-foreground"
+            >
+              <Workflow className="w-4 h-4 mr-2" />
+              Workflows
+            </Button>
           </div>
           
           <div className="flex items-center space-x-4">
+            <ConnectionIndicator />
+
             {/* Role Switcher Dropdown */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -506,28 +608,28 @@ export function KanbanBoard({
                   size="sm"
                   className={cn(
                     "role-badge transition-all flex items-center gap-2",
-                    roleConfig[currentRole].gradient
+                    activeRole.gradient
                   )}
                 >
-                  {React.createElement(roleConfig[currentRole].icon, {
+                  {React.createElement(activeRole.icon, {
                     className: "w-4 h-4"
                   })}
-                  {roleConfig[currentRole].label}
+                  {activeRole.label}
                   <ChevronDown className="w-3 h-3 ml-1" />
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-48">
-                {(Object.keys(roleConfig) as Role[]).map((role) => {
-                  const config = roleConfig[role];
-                  const Icon = config.icon;
+                {roles.map((role) => {
+                  const Icon = role.icon;
                   return (
                     <DropdownMenuItem
-                      key={role}
-                      onClick={() => onRoleChange(role)}
+                      key={role.id}
+                      onClick={() => onRoleChange(role.id)}
                       className="flex items-center gap-2 cursor-pointer"
+                      title={role.description || undefined}
                     >
                       <Icon className="w-4 h-4" />
-                      {config.label}
+                      {role.label}
                     </DropdownMenuItem>
                   );
                 })}
@@ -540,7 +642,17 @@ export function KanbanBoard({
               className="hover:bg-primary hover:text-primary-foreground"
             >
               <MessageCircle className="w-4 h-4 mr-2" />
-              Chat with {roleConfig[currentRole].label} AI
+              Chat with {activeRole.label} AI
+            </Button>
+
+            <Button
+              variant="outline"
+              onClick={onTeamChatOpen}
+              className="hover:bg-primary hover:text-primary-foreground"
+              title="Let the backend route your question to the right agent"
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Ask the Team
             </Button>
           </div>
         </div>
@@ -548,26 +660,46 @@ export function KanbanBoard({
 
       {/* Kanban Columns */}
       <div className="flex-1 overflow-hidden">
-        <div className="h-full grid grid-cols-4 gap-6 p-6">
-          {(Object.keys(statusConfig) as TicketStatus[]).map((status) => {
-            const config = statusConfig[status];
-            const tickets = getTicketsByStatus(status);
-            const Icon = config.icon;
+        <div
+          className="h-full grid gap-6 p-6 overflow-x-auto"
+          style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(16rem, 1fr))` }}
+        >
+          {columns.map((column) => {
+            const tickets = getTicketsByStatus(column.id);
+            const Icon = columnIcons[column.icon];
+            const isOverLimit = !!column.wipLimit && tickets.length > column.wipLimit;
+            const isAtLimit = !!column.wipLimit && tickets.length === column.wipLimit;
             
             return (
               <DroppableColumn
-                key={status}
-                id={`column-${status}`}
-                className="kanban-column rounded-lg border bg-muted/30 p-4 transition-colors"
+                key={column.id}
+                id={`column-${column.id}`}
+                className={cn(
+                  "kanban-column rounded-lg border bg-muted/30 p-4 transition-colors",
+                  isOverLimit && "border-destructive bg-destructive/5",
+                  isAtLimit && "border-warning"
+                )}
               >
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center space-x-2">
                     <Icon className="w-5 h-5 text-muted-foreground" />
-                    <h3 className="font-semibold text-lg">{config.label}</h3>
-                    <Badge variant="secondary" className="ml-2">
-                      {tickets.length}
+                    <h3 className="font-semibold text-lg">{column.label}</h3>
+                    <Badge
+                      variant="secondary"
+                      className={cn("ml-2", isOverLimit && "bg-destructive text-white")}
+                      title={column.wipLimit ? `WIP limit ${column.wipLimit}${column.enforceWipLimit ? ' (enforced)' : ''}` : undefined}
+                    >
+                      {column.wipLimit ? `${tickets.length}/${column.wipLimit}` : tickets.length}
                     </Badge>
                   </div>
+                  {column.ownerRole && (
+                    <Badge
+                      className={cn("text-xs text-white", getRoleStyle(column.ownerRole).color)}
+                      title={getRole(column.ownerRole).label}
+                    >
+                      {column.ownerRole.toUpperCase()}
+                    </Badge>
+                  )}
                 </div>
                 
                 <SortableContext
@@ -580,7 +712,7 @@ export function KanbanBoard({
                       <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
                         <Icon className="w-8 h-8 text-muted-foreground" />
                       </div>
-                      <h3 className="font-semibold text-sm mb-2">No {config.label.toLowerCase()}</h3>
+                      <h3 className="font-semibold text-sm mb-2">No {column.label.toLowerCase()}</h3>
                       <p className="text-xs text-muted-foreground mb-4">
                         {currentRole === 'analyst'
                           ? "Tickets will be created from the board documentation"
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  draftTicketFromMessage,
+  extractCriteria,
+  toDocumentationSection,
+  type MessageAction
+} from '@/lib/messageActions';
+import { getRoleLabel } from '@/lib/roles';
+import { useRoles } from '@/hooks/use-roles';
+import type { Epic, Role, Ticket } from './KanbanBoard';
+
+interface MessageActionDialogProps {
+  action: MessageAction | null;
+  onClose: () => void;
+  tickets: Ticket[];
+  epics: Epic[];
+  // Status new tickets start in
+  backlogStatus: string;
+  onTicketCreate: (ticket: Ticket) => void;
+  onCriteriaAdd: (ticketId: string, criteria: string[]) => void;
+  onDocumentationAppend: (section: string) => void;
+}
+
+const NO_EPIC = 'none';
+
+const titles = {
+  ticket: 'Create Ticket from Message',
+  criteria: 'Add Acceptance Criteria',
+  docs: 'Append to Board Documentation'
+};
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export function MessageActionDialog({
+  action,
+  onClose,
+  tickets,
+  epics,
+  backlogStatus,
+  onTicketCreate,
+  onCriteriaAdd,
+  onDocumentationAppend
+}: MessageActionDialogProps) {
+  const { roles } = useRoles();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [criteria, setCriteria] = useState('');
+  const [priority, setPriority] = useState<Ticket['priority']>('medium');
+  const [storyPoints, setStoryPoints] = useState(3);
+  const [assignee, setAssignee] = useState<Role>('dev');
+  const [epicId, setEpicId] = useState(NO_EPIC);
+  const [ticketId, setTicketId] = useState('');
+  const [section, setSection] = useState('');
+
+  // Prefill every form from the message the action was started on
+  useEffect(() => {
+    if (!action) return;
+    const draft = draftTicketFromMessage(action.message.content);
+    setTitle(draft.title);
+    setDescription(draft.description);
+    setCriteria((action.kind === 'criteria' ? extractCriteria(action.message.content) : draft.acceptanceCriteria).join('\n'));
+    setPriority('medium');
+    setStoryPoints(3);
+    setAssignee('dev');
+    setEpicId(NO_EPIC);
+    setTicketId('');
+    const author = action.message.sender === 'user' ? 'User' : action.message.role ? getRoleLabel(action.message.role) : 'Team';
+    setSection(toDocumentationSection(action.message, author));
+  }, [action]);
+
+  if (!action) return null;
+
+  const selectedTicket = tickets.find(ticket => ticket.id === ticketId);
+
+  const canSubmit = action.kind === 'ticket'
+    ? !!title.trim()
+    : action.kind === 'criteria'
+      ? !!selectedTicket && toLines(criteria).length > 0
+      : !!section.trim();
+
+  const submit = () => {
+    if (!canSubmit) return;
+
+    if (action.kind === 'ticket') {
+      onTicketCreate({
+        id: `TICKET-${Date.now()}-0`,
+        title: title.trim(),
+        description: description.trim(),
+        acceptanceCriteria: toLines(criteria),
+        status: backlogStatus,
+        assignee,
+        priority,
+        storyPoints,
+        epicId: epicId === NO_EPIC ? undefined : epicId,
+        source: { threadId: action.threadId, messageId: action.message.id }
+      });
+    } else if (action.kind === 'criteria') {
+      onCriteriaAdd(ticketId, toLines(criteria));
+    } else {
+      onDocumentationAppend(section.trim());
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{titles[action.kind]}</DialogTitle>
+          <DialogDescription>
+            {action.kind === 'ticket' && 'The new ticket goes to the backlog and links back to this message.'}
+            {action.kind === 'criteria' && 'Each line becomes an acceptance criterion on the chosen ticket.'}
+            {action.kind === 'docs' && 'This section is added to the end of the board documentation.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {action.kind === 'ticket' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="message-ticket-title">Title</Label>
+              <Input id="message-ticket-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="message-ticket-description">Description</Label>
+              <Textarea
+                id="message-ticket-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={6}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="message-ticket-criteria">Acceptance criteria (one per line)</Label>
+              <Textarea
+                id="message-ticket-criteria"
+                value={criteria}
+                onChange={(e) => setCriteria(e.target.value)}
+                rows={4}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={priority} onValueChange={(value) => setPriority(value as Ticket['priority'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Assignee</Label>
+                <Select value={assignee} onValueChange={setAssignee}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map(role => (
+                      <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Story Points</Label>
+                <Select value={storyPoints.toString()} onValueChange={(value) => setStoryPoints(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 5, 8, 13].map(points => (
+                      <SelectItem key={points} value={points.toString()}>
+                        {points} {points === 1 ? 'point' : 'points'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Epic</Label>
+                <Select value={epicId} onValueChange={setEpicId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EPIC}>No epic</SelectItem>
+                    {epics.map(epic => (
+                      <SelectItem key={epic.id} value={epic.id}>{epic.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {action.kind === 'criteria' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Ticket</Label>
+              <Select value={ticketId} onValueChange={setTicketId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={tickets.length > 0 ? 'Choose a ticket' : 'This board has no tickets yet'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {tickets.map(ticket => (
+                    <SelectItem key={ticket.id} value={ticket.id}>
+                      {ticket.id} · {ticket.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTicket?.acceptanceCriteria?.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Already has {selectedTicket.acceptanceCriteria.length} criteria; these are added after them.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="message-criteria">Acceptance criteria (one per line)</Label>
+              <Textarea
+                id="message-criteria"
+                value={criteria}
+                onChange={(e) => setCriteria(e.target.value)}
+                rows={8}
+                placeholder="The message lists no items; write the criteria here"
+              />
+            </div>
+          </div>
+        )}
+
+        {action.kind === 'docs' && (
+          <div className="space-y-2">
+            <Label htmlFor="message-docs">Section (Markdown)</Label>
+            <Textarea
+              id="message-docs"
+              value={section}
+              onChange={(e) => setSection(e.target.value)}
+              rows={12}
+              className="font-mono text-sm"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={submit} disabled={!canSubmit}>
+            {action.kind === 'ticket' ? 'Create Ticket' : action.kind === 'criteria' ? 'Add Criteria' : 'Append'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
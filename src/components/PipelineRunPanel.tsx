@@ -0,0 +1,256 @@
+import React from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, Play, Pause, Square, Check, X, Bot } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { pipelineGateLabels, type PipelineConfig, type PipelineGate } from '@/lib/pipeline';
+import type { PipelineState } from '@/hooks/use-pipeline-runner';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { OfflineNotice } from './ConnectionIndicator';
+import type { Ticket } from './KanbanBoard';
+
+interface PipelineRunPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tickets: Ticket[];
+  config: PipelineConfig;
+  onConfigChange: (config: PipelineConfig) => void;
+  state: PipelineState;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+const statusStyles: Record<PipelineState['status'], string> = {
+  idle: 'bg-muted text-muted-foreground',
+  running: 'bg-role-dev text-white',
+  paused: 'bg-warning text-white',
+  'awaiting-approval': 'bg-warning text-white',
+  completed: 'bg-success text-white',
+  cancelled: 'bg-destructive text-white'
+};
+
+const logStyles = {
+  info: 'text-muted-foreground',
+  success: 'text-success',
+  error: 'text-destructive'
+};
+
+export function PipelineRunPanel({
+  isOpen,
+  onClose,
+  tickets,
+  config,
+  onConfigChange,
+  state,
+  onStart,
+  onPause,
+  onResume,
+  onCancel,
+  onApprove,
+  onReject
+}: PipelineRunPanelProps) {
+  const { isOffline } = useConnectionStatus();
+  const isActive = state.status === 'running' || state.status === 'paused' || state.status === 'awaiting-approval';
+  const ticketTitle = (ticketId: string) => tickets.find(ticket => ticket.id === ticketId)?.title ?? ticketId;
+
+  const toggleGate = (gate: PipelineGate, enabled: boolean) =>
+    onConfigChange({
+      ...config,
+      gates: enabled ? [...config.gates, gate] : config.gates.filter(g => g !== gate)
+    });
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-[28rem] sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Bot className="w-5 h-5" />
+            Autonomous Pipeline
+            <Badge className={cn('ml-auto', statusStyles[state.status])}>
+              {state.status.replace('-', ' ')}
+            </Badge>
+          </SheetTitle>
+          <SheetDescription>
+            Drives backlog stories through the Developer and QA agents, highest priority first.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 py-4">
+          <OfflineNotice />
+
+          {/* Settings */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="maxQaRetries" className="text-sm">QA retries per story</Label>
+                <Input
+                  id="maxQaRetries"
+                  type="number"
+                  min={0}
+                  max={10}
+                  className="w-20"
+                  value={config.maxQaRetries}
+                  disabled={isActive}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    maxQaRetries: Math.max(0, Math.min(10, parseInt(e.target.value) || 0))
+                  })}
+                />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm">Pause for approval</p>
+                {(Object.keys(pipelineGateLabels) as PipelineGate[]).map(gate => (
+                  <div key={gate} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`gate-${gate}`}
+                      checked={config.gates.includes(gate)}
+                      disabled={isActive}
+                      onCheckedChange={(checked) => toggleGate(gate, checked === true)}
+                    />
+                    <Label htmlFor={`gate-${gate}`} className="text-sm font-normal">
+                      {pipelineGateLabels[gate]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Current Step */}
+          {state.currentTicketId && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Current Story</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p className="font-medium">{state.currentTicketId}</p>
+                <p className="text-muted-foreground">{ticketTitle(state.currentTicketId)}</p>
+                {state.currentStep && state.status === 'running' && (
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {state.currentStep === 'implementing' ? 'Developer agent implementing' : 'QA agent testing'}
+                    {state.attempt > 1 && ` (attempt ${state.attempt})`}
+                  </div>
+                )}
+                {state.pendingGate && (
+                  <div className="space-y-2 pt-2">
+                    <p>Approval needed: {pipelineGateLabels[state.pendingGate].toLowerCase()}</p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={onApprove}>
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={onReject}>
+                        <X className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Queue */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-2">
+                Queue
+                <Badge variant="secondary">{state.queue.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {state.queue.length === 0 ? (
+                <p className="text-muted-foreground">
+                  {isActive ? 'Nothing left to process' : 'Backlog stories are queued when the run starts'}
+                </p>
+              ) : (
+                state.queue.map(ticketId => (
+                  <div
+                    key={ticketId}
+                    className={cn(
+                      'flex items-center justify-between gap-2 rounded px-2 py-1',
+                      ticketId === state.currentTicketId && 'bg-muted'
+                    )}
+                  >
+                    <span className="truncate">{ticketTitle(ticketId)}</span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">{ticketId}</span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Log */}
+          {state.log.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Activity</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-48">
+                  <div className="space-y-1 text-xs pr-3">
+                    {state.log.map(entry => (
+                      <p key={entry.id} className={logStyles[entry.level]}>
+                        <span className="opacity-70">{entry.timestamp.toLocaleTimeString()}</span>{' '}
+                        {entry.ticketId && <span className="font-medium">{entry.ticketId}: </span>}
+                        {entry.message}
+                      </p>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="flex gap-2 border-t pt-4">
+          {!isActive && (
+            <Button className="flex-1" onClick={onStart} disabled={isOffline}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Run
+            </Button>
+          )}
+          {state.status === 'running' && (
+            <Button variant="outline" className="flex-1" onClick={onPause}>
+              <Pause className="w-4 h-4 mr-2" />
+              Pause
+            </Button>
+          )}
+          {state.status === 'paused' && (
+            <Button variant="outline" className="flex-1" onClick={onResume}>
+              <Play className="w-4 h-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {isActive && (
+            <Button variant="destructive" className="flex-1" onClick={onCancel}>
+              <Square className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
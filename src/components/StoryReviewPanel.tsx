@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Trash2, Scissors, Merge, RefreshCw, Check, ArrowLeft } from 'lucide-react';
+import { newDraftKey, type DraftEpic, type DraftStory } from '@/lib/epicBreakdown';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { useRoles } from '@/hooks/use-roles';
+import type { Role, Ticket } from './KanbanBoard';
+
+interface StoryReviewPanelProps {
+  draft: DraftEpic;
+  onChange: (draft: DraftEpic) => void;
+  onRegenerate: (story: DraftStory) => void;
+  regeneratingKey: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const STORY_POINTS = [1, 2, 3, 5, 8, 13];
+const PRIORITY_ORDER: Ticket['priority'][] = ['low', 'medium', 'high', 'critical'];
+
+// Round up to the nearest allowed estimate, capped at the largest one
+const toStoryPoints = (points: number) =>
+  STORY_POINTS.find(allowed => allowed >= points) ?? STORY_POINTS[STORY_POINTS.length - 1];
+
+function splitStory(story: DraftStory): [DraftStory, DraftStory] {
+  const half = Math.ceil(story.acceptanceCriteria.length / 2);
+  const firstCriteria = story.acceptanceCriteria.slice(0, half);
+  const secondCriteria = story.acceptanceCriteria.slice(half);
+  const points = toStoryPoints(Math.ceil(story.storyPoints / 2));
+
+  return [
+    { ...story, key: newDraftKey(), title: `${story.title} (part 1)`, acceptanceCriteria: firstCriteria, storyPoints: points },
+    {
+      ...story,
+      key: newDraftKey(),
+      title: `${story.title} (part 2)`,
+      acceptanceCriteria: secondCriteria.length > 0 ? secondCriteria : [...firstCriteria],
+      storyPoints: points
+    }
+  ];
+}
+
+function mergeStories(stories: DraftStory[]): DraftStory {
+  const [first] = stories;
+  return {
+    ...first,
+    key: newDraftKey(),
+    description: stories.map(story => story.description).join('\n\n'),
+    acceptanceCriteria: stories.flatMap(story => story.acceptanceCriteria),
+    storyPoints: toStoryPoints(stories.reduce((sum, story) => sum + story.storyPoints, 0)),
+    priority: stories.reduce<Ticket['priority']>(
+      (highest, story) =>
+        PRIORITY_ORDER.indexOf(story.priority) > PRIORITY_ORDER.indexOf(highest) ? story.priority : highest,
+      first.priority
+    )
+  };
+}
+
+export function StoryReviewPanel({
+  draft,
+  onChange,
+  onRegenerate,
+  regeneratingKey,
+  onConfirm,
+  onCancel
+}: StoryReviewPanelProps) {
+  const { isOffline } = useConnectionStatus();
+  const { roles, getRole } = useRoles();
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+
+  const updateStories = (stories: DraftStory[]) => onChange({ ...draft, stories });
+
+  const updateStory = (key: string, changes: Partial<DraftStory>) =>
+    updateStories(draft.stories.map(story => story.key === key ? { ...story, ...changes } : story));
+
+  const deleteStory = (key: string) => {
+    updateStories(draft.stories.filter(story => story.key !== key));
+    setSelectedKeys(prev => prev.filter(selected => selected !== key));
+  };
+
+  const handleSplit = (key: string) =>
+    updateStories(draft.stories.flatMap(story => story.key === key ? splitStory(story) : [story]));
+
+  const handleMerge = () => {
+    const selected = draft.stories.filter(story => selectedKeys.includes(story.key));
+    if (selected.length < 2) return;
+
+    const merged = mergeStories(selected);
+    const insertAt = draft.stories.indexOf(selected[0]);
+    const remaining = draft.stories.filter(story => !selectedKeys.includes(story.key));
+    remaining.splice(insertAt, 0, merged);
+
+    updateStories(remaining);
+    setSelectedKeys([]);
+  };
+
+  // Keep an agent-suggested role selectable even when the backend does not list it
+  const assigneeOptions = (assignee: Role) =>
+    roles.some(role => role.id === assignee) ? roles : [...roles, getRole(assignee)];
+
+  const toggleSelected = (key: string, checked: boolean) =>
+    setSelectedKeys(prev => checked ? [...prev, key] : prev.filter(selected => selected !== key));
+
+  const totalPoints = draft.stories.reduce((sum, story) => sum + story.storyPoints, 0);
+  const canConfirm = draft.title.trim() !== '' &&
+    draft.stories.length > 0 &&
+    draft.stories.every(story => story.title.trim() !== '');
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 gap-4">
+      {/* Epic */}
+      <Card className="flex-shrink-0">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Proposed Epic</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Input
+            value={draft.title}
+            onChange={(e) => onChange({ ...draft, title: e.target.value })}
+            placeholder="Epic title..."
+          />
+          <Textarea
+            value={draft.description}
+            onChange={(e) => onChange({ ...draft, description: e.target.value })}
+            placeholder="Epic description..."
+            rows={2}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Stories */}
+      <div className="flex items-center justify-between flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold">Stories</h3>
+          <Badge variant="secondary">{draft.stories.length}</Badge>
+          <Badge variant="outline">{totalPoints} pts</Badge>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleMerge}
+          disabled={selectedKeys.length < 2}
+        >
+          <Merge className="w-4 h-4 mr-2" />
+          Merge Selected
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {draft.stories.map((story, index) => {
+          const isRegenerating = regeneratingKey === story.key;
+          return (
+            <Card key={story.key}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={selectedKeys.includes(story.key)}
+                    onCheckedChange={(checked) => toggleSelected(story.key, checked === true)}
+                    aria-label={`Select story ${index + 1}`}
+                  />
+                  <span className="text-sm font-medium text-muted-foreground">Story {index + 1}</span>
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRegenerate(story)}
+                      disabled={regeneratingKey !== null || isOffline}
+                      title={isOffline ? 'The agent backend is offline' : 'Regenerate story'}
+                    >
+                      {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSplit(story.key)}
+                      disabled={isRegenerating}
+                      title="Split story"
+                    >
+                      <Scissors className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteStory(story.key)}
+                      disabled={isRegenerating}
+                      title="Delete story"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <Input
+                  value={story.title}
+                  onChange={(e) => updateStory(story.key, { title: e.target.value })}
+                  placeholder="Story title..."
+                  disabled={isRegenerating}
+                />
+                <Textarea
+                  value={story.description}
+                  onChange={(e) => updateStory(story.key, { description: e.target.value })}
+                  placeholder="Story description..."
+                  rows={2}
+                  disabled={isRegenerating}
+                />
+                <div className="space-y-1">
+                  <Label className="text-xs">Acceptance criteria (one per line)</Label>
+                  <Textarea
+                    value={story.acceptanceCriteria.join('\n')}
+                    onChange={(e) => updateStory(story.key, { acceptanceCriteria: e.target.value.split('\n') })}
+                    rows={3}
+                    disabled={isRegenerating}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <Select
+                    value={story.storyPoints.toString()}
+                    onValueChange={(value) => updateStory(story.key, { storyPoints: parseInt(value) })}
+                    disabled={isRegenerating}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STORY_POINTS.map(points => (
+                        <SelectItem key={points} value={points.toString()}>
+                          {points} {points === 1 ? 'point' : 'points'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Select
+                    value={story.priority}
+                    onValueChange={(value) => updateStory(story.key, { priority: value as Ticket['priority'] })}
+                    disabled={isRegenerating}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select
+                    value={story.assignee}
+                    onValueChange={(value) => updateStory(story.key, { assignee: value as Role })}
+                    disabled={isRegenerating}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assigneeOptions(story.assignee).map(role => (
+                        <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {draft.stories.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            All stories were removed. Go back to the conversation to generate a new breakdown.
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2 flex-shrink-0">
+        <Button variant="outline" onClick={onCancel} className="flex-1">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Chat
+        </Button>
+        <Button onClick={onConfirm} disabled={!canConfirm || regeneratingKey !== null} className="flex-1">
+          <Check className="w-4 h-4 mr-2" />
+          Add {draft.stories.length} {draft.stories.length === 1 ? 'Story' : 'Stories'} to Backlog
+        </Button>
+      </div>
+    </div>
+  );
+}
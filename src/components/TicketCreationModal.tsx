@@ -9,15 +9,35 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { Loader2, Bot, User, Plus, Lightbulb } from 'lucide-react';
-import { apiService } from '@/lib/api';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, Bot, User, Plus, Lightbulb, Square, AlertCircle } from 'lucide-react';
+import { apiService, isAbortError } from '@/lib/api';
+import { describeError, type ErrorDescription } from '@/lib/apiErrors';
+import {
+  requestEpicBreakdown,
+  requestStoryRegeneration,
+  toDraftEpic,
+  toDraftStory,
+  fromDraftStory,
+  type DraftEpic,
+  type DraftStory
+} from '@/lib/epicBreakdown';
+import { StructuredResponseError } from '@/lib/structuredResponse';
+import { StoryReviewPanel } from './StoryReviewPanel';
+import { useChatStream } from '@/hooks/use-chat-stream';
+import { useAbortable } from '@/hooks/use-abortable';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { useRoles } from '@/hooks/use-roles';
 import { FormattedMessage } from './FormattedMessage';
+import { OfflineNotice } from './ConnectionIndicator';
 import { cn } from '@/lib/utils';
 
 interface TicketCreationModalProps {
   isOpen: boolean;
   onClose: () => void;
   onTicketsCreated: (tickets: any[], epic: any) => void;
+  // New stories land in the board's first workflow column
+  backlogStatus: string;
 }
 
 interface Message {
@@ -27,7 +47,7 @@ interface Message {
   timestamp: Date;
 }
 
-export function TicketCreationModal({ isOpen, onClose, onTicketsCreated }: TicketCreationModalProps) {
+export function TicketCreationModal({ isOpen, onClose, onTicketsCreated, backlogStatus }: TicketCreationModalProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: 'welcome',
@@ -39,14 +59,29 @@ Please describe what feature or functionality you'd like to implement, and I'll
     }
   ]);
   const [inputMessage, setInputMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const { isStreaming: isLoading, streamingText, runStream, stopStream } = useChatStream();
+  const { isOffline } = useConnectionStatus();
+  const { roles } = useRoles();
+  const { runAbortable, abortAll } = useAbortable();
   const [isCreatingTicket, setIsCreatingTicket] = useState(false);
+  const [chatError, setChatError] = useState<ErrorDescription | null>(null);
+  const [breakdownError, setBreakdownError] = useState<ErrorDescription | null>(null);
+  const [draftEpic, setDraftEpic] = useState<DraftEpic | null>(null);
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading, isCreatingTicket]);
+  }, [messages, isLoading, streamingText, isCreatingTicket]);
+
+  // Closing the dialog stops any response still streaming in, and any breakdown still being generated
+  useEffect(() => {
+    if (!isOpen) {
+      stopStream();
+      abortAll();
+    }
+  }, [isOpen, stopStream, abortAll]);
 
   // Ticket form state
   const [ticketForm, setTicketForm] = useState({
@@ -59,7 +94,7 @@ Please describe what feature or functionality you'd like to implement, and I'll
   const [showForm, setShowForm] = useState(false);
 
   const sendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return;
+    if (!inputMessage.trim() || isLoading || isOffline) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -70,147 +105,131 @@ Please describe what feature or functionality you'd like to implement, and I'll
 
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
-    setIsLoading(true);
+    setChatError(null);
 
     try {
-      const response = await apiService.chatWithRole('pm', {
-        message: inputMessage.trim(),
-        context: {
-          purpose: 'ticket_creation',
-          previous_messages: messages.slice(-8).map(m => ({
-            sender: m.sender,
-            content: m.content,
-            timestamp: m.timestamp.toISOString()
-          }))
-        }
-      });
+      const { text, aborted } = await runStream(signal =>
+        apiService.streamChatWithRole('pm', {
+          message: inputMessage.trim(),
+          context: {
+            purpose: 'ticket_creation',
+            previous_messages: messages.slice(-8).map(m => ({
+              sender: m.sender,
+              content: m.content,
+              timestamp: m.timestamp.toISOString()
+            }))
+          }
+        }, { signal })
+      );
+      if (aborted && !text) return;
 
       const agentMessage: Message = {
         id: (Date.now() + 1).toString(),
-        content: response.response,
+        content: aborted ? `${text}\n\n*Response stopped.*` : text,
         sender: 'agent',
         timestamp: new Date()
       };
 
       setMessages(prev => [...prev, agentMessage]);
     } catch (error) {
+      if (isAbortError(error)) return;
+      const description = describeError(error, 'Failed to get response from the Product Manager');
+      setChatError(description);
+
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
-        content: `Sorry, I encountered an error. Please try again.`,
+        content: `Sorry, I encountered an error: ${description.message}. Please try again.`,
         sender: 'agent',
         timestamp: new Date()
       };
       setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  const getConversationSummary = () => messages
+    .filter(m => m.sender === 'user')
+    .map(m => m.content)
+    .join('\n\n');
+
+  const describeBreakdownError = (error: unknown, fallback: string): ErrorDescription =>
+    error instanceof StructuredResponseError
+      ? { title: 'Invalid breakdown', message: `${error.message} ${error.issues.slice(0, 3).join('; ')}` }
+      : describeError(error, fallback);
+
   const generateEpicFromConversation = async () => {
     setIsCreatingTicket(true);
+    setBreakdownError(null);
 
     try {
-      const conversationSummary = messages
-        .filter(m => m.sender === 'user')
-        .map(m => m.content)
-        .join('\n\n');
-
-      // Step 1: Generate epic title and description
-      const epicResponse = await apiService.chatWithRole('pm', {
-        message: `Based on our conversation, create a concise epic title (max 10 words) and a brief description (2-3 sentences) that captures the overall feature or capability being requested.
-
-        Format your response as:
-        Title: [Epic Title]
-        Description: [Epic Description]
-
-        Conversation: ${conversationSummary}`,
-        context: {
-          purpose: 'epic_generation'
-        }
-      });
-
-      // Parse epic title and description
-      const epicTitleMatch = epicResponse.response.match(/Title:\s*(.+?)(?:\n|$)/);
-      const epicDescMatch = epicResponse.response.match(/Description:\s*(.+?)(?:\n\n|$)/s);
+      const breakdown = await runAbortable(signal => requestEpicBreakdown(getConversationSummary(), signal));
 
-      const epicTitle = epicTitleMatch ? epicTitleMatch[1].trim() : (ticketForm.title || 'Generated Epic');
-      const epicDescription = epicDescMatch ? epicDescMatch[1].trim() : 'Epic generated from conversation';
+      // Stage the proposal for review instead of adding it straight to the backlog
+      setDraftEpic(toDraftEpic(breakdown));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Epic generation failed:', error);
+      setBreakdownError(describeBreakdownError(error, 'Failed to generate epic'));
+    } finally {
+      setIsCreatingTicket(false);
+    }
+  };
 
-      // Create epic
-      const epicId = `EPIC-${Date.now()}`;
-      const epic = {
-        id: epicId,
-        title: epicTitle,
-        description: epicDescription,
-        createdAt: new Date()
-      };
+  const regenerateStory = async (story: DraftStory) => {
+    if (!draftEpic) return;
+    setRegeneratingKey(story.key);
+    setBreakdownError(null);
 
-      // Step 2: Generate individual user stories for this epic
-      const storiesResponse = await apiService.chatWithRole('pm', {
-        message: `Based on our conversation, break down this epic into 2-5 individual user stories. Each user story should be a complete, independent piece of functionality.
-
-        For each user story, provide:
-        - A clear, concise title (max 15 words)
-        - A brief description (2-3 sentences)
-        - Suggested story points (1, 2, 3, 5, 8, or 13)
-
-        Format each user story as:
-        Story [number]:
-        Title: [Story Title]
-        Description: [Story Description]
-        Story Points: [points]
-
-        Conversation: ${conversationSummary}`,
-        context: {
-          purpose: 'user_story_breakdown'
-        }
+    try {
+      const regenerated = await runAbortable(signal => requestStoryRegeneration(
+        { title: draftEpic.title, description: draftEpic.description },
+        fromDraftStory(story),
+        getConversationSummary(),
+        signal
+      ));
+      const replacement = toDraftStory(regenerated);
+      setDraftEpic(prev => prev && {
+        ...prev,
+        stories: prev.stories.map(s => s.key === story.key ? replacement : s)
       });
-
-      // Parse user stories from response
-      const storyPattern = /Story \d+:\s*Title:\s*(.+?)\s*Description:\s*(.+?)\s*Story Points:\s*(\d+)/gs;
-      const stories = [];
-      let match;
-
-      while ((match = storyPattern.exec(storiesResponse.response)) !== null) {
-        const [, title, description, storyPoints] = match;
-        stories.push({
-          title: title.trim(),
-          description: description.trim(),
-          storyPoints: parseInt(storyPoints.trim())
-        });
-      }
-
-      // If no stories were parsed, create at least one
-      if (stories.length === 0) {
-        stories.push({
-          title: epicTitle,
-          description: epicDescription,
-          storyPoints: ticketForm.storyPoints || 5
-        });
-      }
-
-      // Create tickets for each user story
-      const tickets = stories.map((story, index) => ({
-        id: `TICKET-${Date.now()}-${index}`,
-        title: story.title,
-        description: story.description,
-        status: 'backlog' as const,
-        assignee: ticketForm.assignee,
-        priority: ticketForm.priority,
-        storyPoints: story.storyPoints,
-        epicId: epicId
-      }));
-
-      onTicketsCreated(tickets, epic);
-      onClose();
-      resetModal();
     } catch (error) {
-      console.error('Epic generation failed:', error);
+      if (isAbortError(error)) return;
+      console.error('Story regeneration failed:', error);
+      setBreakdownError(describeBreakdownError(error, 'Failed to regenerate story'));
     } finally {
-      setIsCreatingTicket(false);
+      setRegeneratingKey(null);
     }
   };
 
+  const confirmDraftEpic = () => {
+    if (!draftEpic) return;
+
+    // Create epic
+    const epicId = `EPIC-${Date.now()}`;
+    const epic = {
+      id: epicId,
+      title: draftEpic.title.trim(),
+      description: draftEpic.description.trim(),
+      createdAt: new Date()
+    };
+
+    // Create tickets for each reviewed user story
+    const tickets = draftEpic.stories.map((story, index) => ({
+      id: `TICKET-${Date.now()}-${index}`,
+      title: story.title.trim(),
+      description: story.description.trim(),
+      acceptanceCriteria: story.acceptanceCriteria.map(c => c.trim()).filter(Boolean),
+      status: backlogStatus,
+      assignee: story.assignee,
+      priority: story.priority,
+      storyPoints: story.storyPoints,
+      epicId: epicId
+    }));
+
+    onTicketsCreated(tickets, epic);
+    onClose();
+    resetModal();
+  };
+
   const createEpicManually = () => {
     if (!ticketForm.title.trim()) return;
 
@@ -228,7 +247,7 @@ Please describe what feature or functionality you'd like to implement, and I'll
       id: `TICKET-${Date.now()}-0`,
       title: ticketForm.title,
       description: ticketForm.title,
-      status: 'backlog',
+      status: backlogStatus,
       assignee: ticketForm.assignee,
       priority: ticketForm.priority,
       storyPoints: ticketForm.storyPoints,
@@ -258,238 +277,298 @@ Please describe what feature or functionality you'd like to implement, and I'll
       assignee: 'dev'
     });
     setShowForm(false);
+    setChatError(null);
+    setBreakdownError(null);
+    setDraftEpic(null);
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl h-[80vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Create New Ticket</DialogTitle>
+          <DialogTitle>{draftEpic ? 'Review Generated Stories' : 'Create New Ticket'}</DialogTitle>
         </DialogHeader>
 
-        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6 min-h-0">
-          {/* Chat Interface */}
-          <Card className="flex flex-col h-full">
-            <CardHeader className="flex-shrink-0">
-              <CardTitle className="flex items-center gap-2">
-                <Bot className="w-5 h-5" />
-                Product Manager AI
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="flex-1 flex flex-col min-h-0 p-0">
-              <div className="flex-1 overflow-y-auto p-4" style={{maxHeight: 'calc(70vh - 200px)'}}>
-                <div className="space-y-4">
-                  {messages.map((message) => (
-                    <div key={message.id} className={cn(
-                      "flex items-start space-x-2",
-                      message.sender === 'user' ? "justify-end" : "justify-start"
-                    )}>
-                      {message.sender === 'agent' && (
-                        <Avatar className="w-8 h-8 flex-shrink-0">
-                          <AvatarFallback className="bg-green-100">
-                            <Bot className="w-4 h-4 text-green-600" />
-                          </AvatarFallback>
-                        </Avatar>
-                      )}
-
-                      <div className={cn(
-                        "max-w-[75%] p-3 rounded-lg break-words overflow-hidden",
-                        message.sender === 'user'
-                          ? "bg-primary text-primary-foreground ml-auto"
-                          : "bg-muted"
+        {draftEpic ? (
+          <>
+            {breakdownError && (
+              <Alert variant="destructive" className="flex-shrink-0">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{breakdownError.title}</AlertTitle>
+                <AlertDescription>{breakdownError.message}</AlertDescription>
+              </Alert>
+            )}
+            <StoryReviewPanel
+              draft={draftEpic}
+              onChange={setDraftEpic}
+              onRegenerate={regenerateStory}
+              regeneratingKey={regeneratingKey}
+              onConfirm={confirmDraftEpic}
+              onCancel={() => {
+                setDraftEpic(null);
+                setBreakdownError(null);
+              }}
+            />
+          </>
+        ) : (
+          <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6 min-h-0">
+            {/* Chat Interface */}
+            <Card className="flex flex-col h-full">
+              <CardHeader className="flex-shrink-0">
+                <CardTitle className="flex items-center gap-2">
+                  <Bot className="w-5 h-5" />
+                  Product Manager AI
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex-1 flex flex-col min-h-0 p-0">
+                <div className="flex-1 overflow-y-auto p-4" style={{maxHeight: 'calc(70vh - 200px)'}}>
+                  <div className="space-y-4">
+                    {messages.map((message) => (
+                      <div key={message.id} className={cn(
+                        "flex items-start space-x-2",
+                        message.sender === 'user' ? "justify-end" : "justify-start"
                       )}>
-                        <div className="text-sm break-words overflow-wrap-anywhere">
-                          <FormattedMessage content={message.content} />
+                        {message.sender === 'agent' && (
+                          <Avatar className="w-8 h-8 flex-shrink-0">
+                            <AvatarFallback className="bg-green-100">
+                              <Bot className="w-4 h-4 text-green-600" />
+                            </AvatarFallback>
+                          </Avatar>
+                        )}
+
+                        <div className={cn(
+                          "max-w-[75%] p-3 rounded-lg break-words overflow-hidden",
+                          message.sender === 'user'
+                            ? "bg-primary text-primary-foreground ml-auto"
+                            : "bg-muted"
+                        )}>
+                          <div className="text-sm break-words overflow-wrap-anywhere">
+                            <FormattedMessage content={message.content} />
+                          </div>
+                          <span className="text-xs opacity-70 mt-2 block">
+                            {message.timestamp.toLocaleTimeString()}
+                          </span>
                         </div>
-                        <span className="text-xs opacity-70 mt-2 block">
-                          {message.timestamp.toLocaleTimeString()}
-                        </span>
+
+                        {message.sender === 'user' && (
+                          <Avatar className="w-8 h-8 flex-shrink-0">
+                            <AvatarFallback>
+                              <User className="w-4 h-4" />
+                            </AvatarFallback>
+                          </Avatar>
+                        )}
                       </div>
+                    ))}
 
-                      {message.sender === 'user' && (
+                    {/* Loading Animation */}
+                    {(isLoading || isCreatingTicket) && (
+                      <div className="flex items-start space-x-2">
                         <Avatar className="w-8 h-8 flex-shrink-0">
-                          <AvatarFallback>
-                            <User className="w-4 h-4" />
+                          <AvatarFallback className="bg-green-100">
+                            <Bot className="w-4 h-4 text-green-600" />
                           </AvatarFallback>
                         </Avatar>
-                      )}
-                    </div>
-                  ))}
-
-                  {/* Loading Animation */}
-                  {(isLoading || isCreatingTicket) && (
-                    <div className="flex items-start space-x-2">
-                      <Avatar className="w-8 h-8 flex-shrink-0">
-                        <AvatarFallback className="bg-green-100">
-                          <Bot className="w-4 h-4 text-green-600" />
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="bg-muted p-3 rounded-lg max-w-[75%] break-words overflow-hidden">
-                        <div className="flex items-center gap-2 mb-2">
-                          <div className="flex space-x-1">
-                            <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-                            <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                            <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
-                          </div>
-                          <span className="text-sm break-words">
-                            {isCreatingTicket ? 'Generating detailed ticket...' : 'Product Manager AI is thinking...'}
-                          </span>
+                        <div className="bg-muted p-3 rounded-lg max-w-[75%] break-words overflow-hidden">
+                          {streamingText ? (
+                            <div className="text-sm break-words overflow-wrap-anywhere">
+                              <FormattedMessage content={streamingText} />
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2 mb-2">
+                              <div className="flex space-x-1">
+                                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
+                              </div>
+                              <span className="text-sm break-words">
+                                {isCreatingTicket ? 'Generating detailed ticket...' : 'Product Manager AI is thinking...'}
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Scroll anchor */}
-                  <div ref={messagesEndRef} />
-                </div>
-              </div>
-
-              {!showForm && (
-                <div className="border-t p-3 flex-shrink-0 bg-white">
-                  <div className="flex space-x-2">
-                    <Input
-                      placeholder="Describe the feature or user story..."
-                      value={inputMessage}
-                      onChange={(e) => setInputMessage(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && !isLoading && sendMessage()}
-                      className="flex-1"
-                      disabled={isLoading || isCreatingTicket}
-                    />
-                    <Button
-                      onClick={sendMessage}
-                      size="sm"
-                      disabled={isLoading || isCreatingTicket || !inputMessage.trim()}
-                    >
-                      {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Send'}
-                    </Button>
+                    {/* Scroll anchor */}
+                    <div ref={messagesEndRef} />
                   </div>
+                </div>
 
-                  {messages.length > 2 && (
-                    <div className="flex gap-2 mt-3">
-                      <Button
-                        onClick={() => setShowForm(true)}
-                        variant="outline"
-                        size="sm"
-                        className="flex-1"
-                      >
-                        <Plus className="w-4 h-4 mr-2" />
-                        Create Manual Epic
-                      </Button>
-                      <Button
-                        onClick={generateEpicFromConversation}
-                        disabled={isCreatingTicket}
-                        size="sm"
+                {(chatError || breakdownError) && (
+                  <div className="border-t p-3 flex-shrink-0 space-y-2">
+                    {chatError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertTitle>{chatError.title}</AlertTitle>
+                        <AlertDescription>{chatError.message}</AlertDescription>
+                      </Alert>
+                    )}
+                    {breakdownError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertTitle>{breakdownError.title}</AlertTitle>
+                        <AlertDescription>{breakdownError.message}</AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                )}
+
+                {!showForm && (
+                  <div className="border-t p-3 flex-shrink-0 bg-white">
+                    <OfflineNotice className="mb-2" />
+                    <div className="flex space-x-2">
+                      <Input
+                        placeholder="Describe the feature or user story..."
+                        value={inputMessage}
+                        onChange={(e) => setInputMessage(e.target.value)}
+                        onKeyPress={(e) => e.key === 'Enter' && !isLoading && sendMessage()}
                         className="flex-1"
-                      >
-                        {isCreatingTicket ? (
-                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        ) : (
-                          <Lightbulb className="w-4 h-4 mr-2" />
-                        )}
-                        Generate Epic from Chat
-                      </Button>
+                        disabled={isLoading || isCreatingTicket}
+                      />
+                      {isLoading ? (
+                        <Button onClick={stopStream} size="sm" variant="outline">
+                          <Square className="w-4 h-4 mr-1" />
+                          Stop
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={sendMessage}
+                          size="sm"
+                          disabled={isCreatingTicket || !inputMessage.trim() || isOffline}
+                        >
+                          Send
+                        </Button>
+                      )}
                     </div>
-                  )}
+
+                    {messages.length > 2 && (
+                      <div className="flex gap-2 mt-3">
+                        <Button
+                          onClick={() => setShowForm(true)}
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Create Manual Epic
+                        </Button>
+                        <Button
+                          onClick={generateEpicFromConversation}
+                          disabled={isCreatingTicket || isOffline}
+                          size="sm"
+                          className="flex-1"
+                        >
+                          {isCreatingTicket ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Lightbulb className="w-4 h-4 mr-2" />
+                          )}
+                          Generate Epic from Chat
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Ticket Form */}
+            <Card className="flex flex-col h-full">
+              <CardHeader className="flex-shrink-0">
+                <CardTitle>Ticket Details</CardTitle>
+              </CardHeader>
+              <CardContent className="p-4">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    placeholder="User story title..."
+                    value={ticketForm.title}
+                    onChange={(e) => setTicketForm(prev => ({ ...prev, title: e.target.value }))}
+                  />
                 </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Ticket Form */}
-          <Card className="flex flex-col h-full">
-            <CardHeader className="flex-shrink-0">
-              <CardTitle>Ticket Details</CardTitle>
-            </CardHeader>
-            <CardContent className="p-4">
-              <div className="space-y-4">
-                <div className="space-y-2">
-                <Label htmlFor="title">Title</Label>
-                <Input
-                  id="title"
-                  placeholder="User story title..."
-                  value={ticketForm.title}
-                  onChange={(e) => setTicketForm(prev => ({ ...prev, title: e.target.value }))}
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="priority">Priority</Label>
-                  <Select
-                    value={ticketForm.priority}
-                    onValueChange={(value) => setTicketForm(prev => ({ ...prev, priority: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="low">Low</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="critical">Critical</SelectItem>
-                    </SelectContent>
-                  </Select>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="priority">Priority</Label>
+                    <Select
+                      value={ticketForm.priority}
+                      onValueChange={(value) => setTicketForm(prev => ({ ...prev, priority: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                        <SelectItem value="critical">Critical</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="assignee">Assignee</Label>
+                    <Select
+                      value={ticketForm.assignee}
+                      onValueChange={(value) => setTicketForm(prev => ({ ...prev, assignee: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map(role => (
+                          <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="assignee">Assignee</Label>
+                  <Label htmlFor="storyPoints">Story Points</Label>
                   <Select
-                    value={ticketForm.assignee}
-                    onValueChange={(value) => setTicketForm(prev => ({ ...prev, assignee: value }))}
+                    value={ticketForm.storyPoints.toString()}
+                    onValueChange={(value) => setTicketForm(prev => ({ ...prev, storyPoints: parseInt(value) }))}
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="dev">Developer</SelectItem>
-                      <SelectItem value="qa">QA Engineer</SelectItem>
+                      <SelectItem value="1">1 point</SelectItem>
+                      <SelectItem value="2">2 points</SelectItem>
+                      <SelectItem value="3">3 points</SelectItem>
+                      <SelectItem value="5">5 points</SelectItem>
+                      <SelectItem value="8">8 points</SelectItem>
+                      <SelectItem value="13">13 points</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="storyPoints">Story Points</Label>
-                <Select
-                  value={ticketForm.storyPoints.toString()}
-                  onValueChange={(value) => setTicketForm(prev => ({ ...prev, storyPoints: parseInt(value) }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="1">1 point</SelectItem>
-                    <SelectItem value="2">2 points</SelectItem>
-                    <SelectItem value="3">3 points</SelectItem>
-                    <SelectItem value="5">5 points</SelectItem>
-                    <SelectItem value="8">8 points</SelectItem>
-                    <SelectItem value="13">13 points</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {showForm && (
-                <div className="flex gap-2 pt-4">
-                  <Button
-                    variant="outline"
-                    onClick={() => setShowForm(false)}
-                    className="flex-1"
-                  >
-                    Back to Chat
-                  </Button>
-                  <Button
-                    onClick={createEpicManually}
-                    disabled={!ticketForm.title.trim()}
-                    className="flex-1"
-                  >
-                    Create Epic
-                  </Button>
+
+                {showForm && (
+                  <div className="flex gap-2 pt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowForm(false)}
+                      className="flex-1"
+                    >
+                      Back to Chat
+                    </Button>
+                    <Button
+                      onClick={createEpicManually}
+                      disabled={!ticketForm.title.trim()}
+                      className="flex-1"
+                    >
+                      Create Epic
+                    </Button>
+                  </div>
+                )}
                 </div>
-              )}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
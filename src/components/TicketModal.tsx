@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   Dialog,
   DialogContent,
@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   FileText, 
   User, 
@@ -19,84 +20,258 @@ import {
   Play,
   CheckCircle,
   MessageCircle,
-  ExternalLink
+  ExternalLink,
+  TestTube,
+  Code,
+  HelpCircle,
+  Link2,
+  Unlink as LinkOff
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { Ticket, Role, Epic } from './KanbanBoard';
+import type { TestReport } from '@/lib/qaVerdict';
+import type { ImplementationRecord } from '@/lib/devImplementation';
+import { findColumn, type WorkflowColumn } from '@/lib/workflow';
+import { buildTicketContext } from '@/lib/ticketContext';
+import type { ChatThread } from '@/lib/chatHistory';
+import type { MessageAction } from '@/lib/messageActions';
+import { getRoleLabel } from '@/lib/roles';
+import {
+  findRelevantSections,
+  splitSections,
+  type DocSection,
+  type SectionRelevance
+} from '@/lib/documentSections';
+import { AgentChat } from './AgentChat';
+import { FormattedMessage } from './FormattedMessage';
 
 interface TicketModalProps {
   ticket: Ticket | null;
+  // The whole board, for #ticket mentions in the discussion
+  tickets: Ticket[];
   epics: Epic[];
+  columns: WorkflowColumn[];
   isOpen: boolean;
   onClose: () => void;
   currentRole: Role;
-  onChatOpen: (role: Role) => void;
+  threads: ChatThread[];
+  onThreadsChange: React.Dispatch<React.SetStateAction<ChatThread[]>>;
+  onMessageAction?: (action: MessageAction) => void;
+  onTicketOpen?: (ticketId: string) => void;
+  // The board's documentation, shown as the PRD
+  documentation?: string;
+  onTicketUpdate?: (ticket: Ticket) => void;
 }
 
-const mockPRD = `
-# User Authentication System - Product Requirements Document
-
-## Overview
-Implement a secure and user-friendly authentication system that allows users to register, login, and manage their accounts safely.
-
-## Objectives
-- Provide secure user registration and login functionality
-- Implement JWT-based session management
-- Ensure password security with proper hashing
-- Support email verification for account activation
-
-## User Stories
-- As a new user, I want to create an account so that I can access the platform
-- As a returning user, I want to login quickly and securely
-- As a user, I want to reset my password if I forget it
-- As a user, I want my data to be secure and protected
-
-## Acceptance Criteria
-### Registration
-- [ ] Users can register with email and password
-- [ ] Password must meet security requirements (8+ chars, special chars)
-- [ ] Email verification required before account activation
-- [ ] Duplicate email prevention
-
-### Login
-- [ ] Users can login with email/password
-- [ ] JWT tokens issued on successful authentication
-- [ ] Invalid credentials show appropriate error messages
-- [ ] Account lockout after multiple failed attempts
-
-### Security
-- [ ] Passwords hashed using bcrypt
-- [ ] JWT tokens have appropriate expiration
-- [ ] Rate limiting on authentication endpoints
-- [ ] HTTPS enforcement
-
-## Technical Requirements
-- Backend: Node.js/Express with JWT
-- Database: PostgreSQL for user data
-- Validation: Input validation and sanitization
-- Testing: Unit and integration tests required
-
-## Definition of Done
-- [ ] All acceptance criteria met
-- [ ] Code reviewed and approved
-- [ ] Unit tests written and passing
-- [ ] Integration tests passing
-- [ ] Security audit completed
-- [ ] Documentation updated
-`;
-
-export function TicketModal({ ticket, epics, isOpen, onClose, currentRole, onChatOpen }: TicketModalProps) {
+const relevanceLabels: Record<SectionRelevance, string> = {
+  linked: 'Linked',
+  mentioned: 'Mentions this story',
+  epic: 'Epic',
+  related: 'Related'
+};
+
+const verdictStyles: Record<TestReport['verdict'], string> = {
+  pass: 'bg-success text-white',
+  fail: 'bg-destructive text-white',
+  blocked: 'bg-warning text-white'
+};
+
+const findingStyles: Record<TestReport['findings'][number]['result'], string> = {
+  pass: 'text-success',
+  fail: 'text-destructive',
+  blocked: 'text-warning',
+  not_tested: 'text-muted-foreground'
+};
+
+const changeTypeStyles: Record<ImplementationRecord['file_changes'][number]['change_type'], string> = {
+  added: 'text-success',
+  modified: 'text-warning',
+  deleted: 'text-destructive'
+};
+
+// Implementation Record Component
+function ImplementationPanel({ records }: { records: ImplementationRecord[] }) {
+  const record = records[records.length - 1];
+
+  if (!record) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          The Developer agent has not implemented this story yet.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Code className="w-5 h-5" />
+          <span>Implementation</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-muted-foreground whitespace-pre-wrap">{record.summary}</p>
+
+        {record.file_changes.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">File Changes</h4>
+            {record.file_changes.map((change, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <span className={cn("text-xs font-medium uppercase w-16 flex-shrink-0", changeTypeStyles[change.change_type])}>
+                  {change.change_type}
+                </span>
+                <div className="min-w-0">
+                  <p className="font-mono text-xs break-all">{change.path}</p>
+                  {change.description && (
+                    <p className="text-xs text-muted-foreground">{change.description}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {record.code_snippets.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">Code</h4>
+            {record.code_snippets.map((snippet, index) => (
+              <div key={index} className="space-y-1">
+                {(snippet.path || snippet.description) && (
+                  <p className="text-xs text-muted-foreground">
+                    {snippet.path && <span className="font-mono">{snippet.path}</span>}
+                    {snippet.path && snippet.description && ' — '}
+                    {snippet.description}
+                  </p>
+                )}
+                <pre className="text-xs font-mono bg-muted p-3 rounded-lg overflow-x-auto">
+                  {snippet.code}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {record.open_questions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold flex items-center gap-2">
+              <HelpCircle className="w-4 h-4" />
+              Open Questions
+            </h4>
+            <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+              {record.open_questions.map((question, index) => (
+                <li key={index}>{question}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Implemented {new Date(record.implementedAt).toLocaleString()}
+          {records.length > 1 && ` · ${records.length} implementation runs`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PrdSectionProps {
+  section: DocSection;
+  relevance?: SectionRelevance;
+  isLinked: boolean;
+  onToggleLink?: () => void;
+}
+
+// One documentation section, highlighted when it is relevant to the ticket
+function PrdSection({ section, relevance, isLinked, onToggleLink }: PrdSectionProps) {
+  return (
+    <div className={cn(
+      "rounded-lg border p-3",
+      relevance ? "border-l-4 border-l-primary bg-primary/5" : "border-transparent"
+    )}>
+      <div className="flex items-center justify-end gap-2">
+        {relevance && <Badge variant="secondary" className="text-xs">{relevanceLabels[relevance]}</Badge>}
+        {onToggleLink && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onToggleLink}
+            title={isLinked ? 'Unlink this section from the story' : 'Link this section to the story'}
+          >
+            {isLinked ? <LinkOff className="w-3 h-3 mr-1" /> : <Link2 className="w-3 h-3 mr-1" />}
+            {isLinked ? 'Unlink' : 'Link'}
+          </Button>
+        )}
+      </div>
+      <FormattedMessage content={section.content} className="text-sm" />
+    </div>
+  );
+}
+
+export function TicketModal({
+  ticket,
+  tickets,
+  epics,
+  columns,
+  isOpen,
+  onClose,
+  currentRole,
+  threads,
+  onThreadsChange,
+  onMessageAction,
+  onTicketOpen,
+  documentation,
+  onTicketUpdate
+}: TicketModalProps) {
   const [isFullPRDOpen, setIsFullPRDOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState('details');
+  const [showWholePRD, setShowWholePRD] = useState(false);
+  const sections = useMemo(() => splitSections(documentation ?? ''), [documentation]);
+
+  // Every ticket opens on its details
+  useEffect(() => {
+    setActiveTab('details');
+    setShowWholePRD(false);
+  }, [ticket?.id]);
 
   if (!ticket) return null;
 
   // Find the epic for this ticket
   const epic = ticket.epicId ? epics.find(e => e.id === ticket.epicId) : null;
+  const latestReport = ticket.testReports?.[ticket.testReports.length - 1];
+  const column = findColumn(columns, ticket.status);
+  const columnIndex = columns.findIndex(c => c.id === ticket.status);
+  const matches = findRelevantSections(sections, ticket, epic);
+  const relevance = new Map(matches.map(match => [match.section.id, match.relevance]));
+  const prdSections = showWholePRD || matches.length === 0 ? sections : matches.map(match => match.section);
+
+  const toggleSectionLink = (sectionId: string) => {
+    const linked = ticket.prdSections ?? [];
+    onTicketUpdate?.({
+      ...ticket,
+      prdSections: linked.includes(sectionId) ? linked.filter(id => id !== sectionId) : [...linked, sectionId]
+    });
+  };
+
+  const renderSection = (section: DocSection) => (
+    <PrdSection
+      key={section.id}
+      section={section}
+      relevance={relevance.get(section.id)}
+      isLinked={ticket.prdSections?.includes(section.id) ?? false}
+      onToggleLink={onTicketUpdate ? () => toggleSectionLink(section.id) : undefined}
+    />
+  );
+
+  const sourceThread = ticket.source ? threads.find(thread => thread.id === ticket.source.threadId) : undefined;
+  const sourceMessage = sourceThread?.messages.find(message => message.id === ticket.source.messageId);
 
   const getActionButtons = () => {
     const buttons = [];
     
-    if (currentRole === 'dev' && ticket.status === 'in-progress') {
+    if (currentRole === 'dev' && column?.ownerRole === 'dev') {
       buttons.push(
         <Button key="implement" className="bg-role-dev hover:bg-role-dev/90">
           <Play className="w-4 h-4 mr-2" />
@@ -105,7 +280,7 @@ export function TicketModal({ ticket, epics, isOpen, onClose, currentRole, onCha
       );
     }
     
-    if (currentRole === 'qa' && ticket.status === 'ready-for-testing') {
+    if (currentRole === 'qa' && column?.ownerRole === 'qa') {
       buttons.push(
         <Button key="test" className="bg-role-qa hover:bg-role-qa/90">
           <CheckCircle className="w-4 h-4 mr-2" />
@@ -118,7 +293,7 @@ export function TicketModal({ ticket, epics, isOpen, onClose, currentRole, onCha
       <Button 
         key="chat" 
         variant="outline"
-        onClick={() => onChatOpen(currentRole)}
+        onClick={() => setActiveTab('discussion')}
       >
         <MessageCircle className="w-4 h-4 mr-2" />
         Discuss with Agent
@@ -154,83 +329,210 @@ export function TicketModal({ ticket, epics, isOpen, onClose, currentRole, onCha
         
         <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6 overflow-y-auto">
           {/* Left Column - Ticket Details */}
-          <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <FileText className="w-5 h-5" />
-                  <span>Story Details</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <h3 className="font-semibold mb-2">{ticket.title}</h3>
-                  <p className="text-muted-foreground">{ticket.description}</p>
-                </div>
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="implementation" className="flex items-center space-x-2">
+                <Code className="w-4 h-4" />
+                <span>Implementation</span>
+              </TabsTrigger>
+              <TabsTrigger value="qa" className="flex items-center space-x-2">
+                <TestTube className="w-4 h-4" />
+                <span>QA</span>
+              </TabsTrigger>
+              <TabsTrigger value="discussion" className="flex items-center space-x-2">
+                <MessageCircle className="w-4 h-4" />
+                <span>Discuss</span>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details" className="space-y-6 mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <FileText className="w-5 h-5" />
+                    <span>Story Details</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">{ticket.title}</h3>
+                    <p className="text-muted-foreground">{ticket.description}</p>
+                  </div>
+
+                  {ticket.acceptanceCriteria && ticket.acceptanceCriteria.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-sm mb-2">Acceptance Criteria</h4>
+                      <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                        {ticket.acceptanceCriteria.map((criterion, index) => (
+                          <li key={index}>{criterion}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {ticket.source && (
+                    <div>
+                      <h4 className="font-semibold text-sm mb-2">Created from Chat</h4>
+                      {sourceMessage ? (
+                        <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground">
+                          <p className="line-clamp-3 whitespace-pre-wrap">{sourceMessage.content}</p>
+                          <p className="text-xs mt-1">
+                            {sourceMessage.sender === 'user' ? 'You' : sourceMessage.role ? getRoleLabel(sourceMessage.role) : 'Team'}
+                            {' '}in "{sourceThread.title}" · {sourceMessage.timestamp.toLocaleString()}
+                          </p>
+                        </blockquote>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">The conversation has since been deleted.</p>
+                      )}
+                    </div>
+                  )}
                 
-                <Separator />
+                  <Separator />
                 
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div className="flex items-center space-x-2">
-                    <User className="w-4 h-4 text-muted-foreground" />
-                    <span>Assignee: {ticket.assignee}</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="w-4 h-4 text-muted-foreground" />
-                    <span>Epic: {epic ? epic.title : (ticket.epicId || 'None')}</span>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <User className="w-4 h-4 text-muted-foreground" />
+                      <span>Assignee: {ticket.assignee}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Calendar className="w-4 h-4 text-muted-foreground" />
+                      <span>Epic: {epic ? epic.title : (ticket.epicId || 'None')}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <GitBranch className="w-4 h-4 text-muted-foreground" />
+                      <span>Status: {column?.label ?? ticket.status}</span>
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <GitBranch className="w-4 h-4 text-muted-foreground" />
-                    <span>Status: {ticket.status}</span>
-                  </div>
-                </div>
                 
-                <Separator />
+                  <Separator />
                 
-                <div className="flex flex-wrap gap-2">
-                  {getActionButtons()}
-                </div>
-              </CardContent>
-            </Card>
-            
-            {/* Progress Tracking */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Progress Tracking</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Analysis Complete</span>
-                    <CheckCircle className="w-4 h-4 text-success" />
+                  <div className="flex flex-wrap gap-2">
+                    {getActionButtons()}
                   </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Development</span>
-                    <div className={cn(
-                      "w-4 h-4 rounded-full",
-                      ticket.status === 'in-progress' || ticket.status === 'ready-for-testing' || ticket.status === 'done'
-                        ? "bg-success" : "bg-muted"
-                    )} />
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Testing</span>
-                    <div className={cn(
-                      "w-4 h-4 rounded-full",
-                      ticket.status === 'ready-for-testing' || ticket.status === 'done'
-                        ? "bg-warning" : "bg-muted"
-                    )} />
-                  </div>
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Done</span>
-                    <div className={cn(
-                      "w-4 h-4 rounded-full",
-                      ticket.status === 'done' ? "bg-success" : "bg-muted"
-                    )} />
+                </CardContent>
+              </Card>
+
+              {/* Progress Tracking */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Progress Tracking</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Analysis Complete</span>
+                      <CheckCircle className="w-4 h-4 text-success" />
+                    </div>
+                    {columns.map((c, index) => (
+                      <div key={c.id} className="flex items-center justify-between text-sm">
+                        <span>{c.label}</span>
+                        <div className={cn(
+                          "w-4 h-4 rounded-full",
+                          index < columnIndex || (index === columnIndex && index === columns.length - 1)
+                            ? "bg-success"
+                            : index === columnIndex ? "bg-warning" : "bg-muted"
+                        )} />
+                      </div>
+                    ))}
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="implementation" className="mt-0">
+              <ImplementationPanel records={ticket.implementations ?? []} />
+            </TabsContent>
+
+            <TabsContent value="qa" className="mt-0">
+              {latestReport ? (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center space-x-2">
+                        <TestTube className="w-5 h-5" />
+                        <span>QA Report</span>
+                      </CardTitle>
+                      <Badge className={verdictStyles[latestReport.verdict]}>
+                        {latestReport.verdict}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    <p className="text-muted-foreground">{latestReport.summary}</p>
+
+                    {latestReport.findings.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="font-semibold">Acceptance Criteria</h4>
+                        {latestReport.findings.map((finding, index) => (
+                          <div key={index} className="flex items-start justify-between gap-2">
+                            <div>
+                              <p>{finding.criterion}</p>
+                              {finding.notes && (
+                                <p className="text-xs text-muted-foreground">{finding.notes}</p>
+                              )}
+                            </div>
+                            <span className={cn("text-xs font-medium uppercase", findingStyles[finding.result])}>
+                              {finding.result.replace('_', ' ')}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {latestReport.defects.length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="font-semibold">Defects</h4>
+                        {latestReport.defects.map((defect, index) => (
+                          <div key={index} className="border rounded-lg p-3 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium">{defect.title}</span>
+                              <Badge variant="outline">{defect.severity}</Badge>
+                            </div>
+                            <p className="text-muted-foreground">{defect.description}</p>
+                            {defect.steps_to_reproduce && (
+                              <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                                Steps: {defect.steps_to_reproduce}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      Tested {new Date(latestReport.testedAt).toLocaleString()}
+                      {ticket.testReports.length > 1 && ` · ${ticket.testReports.length} QA runs`}
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="py-8 text-center text-sm text-muted-foreground">
+                    This story has not been tested yet.
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Conversations here are bound to this ticket and carry its details to the agent */}
+            <TabsContent value="discussion" className="mt-0 h-[32rem]">
+              <AgentChat
+                variant="embedded"
+                role={currentRole}
+                isOpen={isOpen}
+                onClose={() => setActiveTab('details')}
+                threads={threads}
+                onThreadsChange={onThreadsChange}
+                ticketId={ticket.id}
+                ticketContext={buildTicketContext(ticket, epic)}
+                onMessageAction={onMessageAction}
+                onTicketOpen={onTicketOpen}
+                tickets={tickets}
+                epics={epics}
+              />
+            </TabsContent>
+          </Tabs>
           
           {/* Right Column - PRD */}
           <Card className="flex flex-col">
@@ -252,11 +554,30 @@ export function TicketModal({ ticket, epics, isOpen, onClose, currentRole, onCha
             </CardHeader>
             <CardContent className="flex-1 p-4">
               <div className="h-full overflow-y-auto scrollbar-thin scrollbar-thumb-muted scrollbar-track-transparent">
-                <div className="prose prose-sm max-w-none">
-                  <pre className="whitespace-pre-wrap text-sm font-mono bg-muted p-4 rounded-lg break-words">
-                    {mockPRD}
-                  </pre>
-                </div>
+                {sections.length === 0 ? (
+                  <div className="py-12 text-center text-sm text-muted-foreground">
+                    <FileText className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                    This board has no documentation yet. Generate it from the board setup.
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span>
+                        {matches.length === 0
+                          ? 'No section matches this story yet; link sections from the full document.'
+                          : showWholePRD
+                            ? `Whole document · ${matches.length} relevant ${matches.length === 1 ? 'section' : 'sections'} highlighted`
+                            : `${matches.length} of ${sections.length} sections relevant to this story`}
+                      </span>
+                      {matches.length > 0 && (
+                        <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setShowWholePRD(prev => !prev)}>
+                          {showWholePRD ? 'Relevant only' : 'Whole document'}
+                        </Button>
+                      )}
+                    </div>
+                    {prdSections.map(renderSection)}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -272,12 +593,10 @@ export function TicketModal({ ticket, epics, isOpen, onClose, currentRole, onCha
               <span>Full Product Requirements Document - {ticket.id}</span>
             </DialogTitle>
           </DialogHeader>
-          <div className="flex-1 overflow-y-auto p-6">
-            <div className="prose prose-sm max-w-none">
-              <pre className="whitespace-pre-wrap text-sm font-mono bg-muted p-6 rounded-lg break-words leading-relaxed">
-                {mockPRD}
-              </pre>
-            </div>
+          <div className="flex-1 overflow-y-auto p-6 space-y-3">
+            {sections.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">This board has no documentation yet.</p>
+            ) : sections.map(renderSection)}
           </div>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Loader2, Play, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { apiService, isAbortError, type WorkflowInfo } from '@/lib/api';
+import { describeError, type ErrorDescription } from '@/lib/apiErrors';
+import {
+  collectProjectTypes,
+  filterWorkflows,
+  findWorkflow,
+  readWorkflowDetails,
+  type WorkflowDetails
+} from '@/lib/workflows';
+import { getRoleStyle } from '@/lib/roles';
+import { useAbortable } from '@/hooks/use-abortable';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { useRoles } from '@/hooks/use-roles';
+import { OfflineNotice } from './ConnectionIndicator';
+
+interface WorkflowPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectType?: string;
+  onProjectTypeChange: (projectType: string | undefined) => void;
+  // Id or name of a workflow to open straight away, e.g. one an agent suggested in chat
+  focusWorkflow?: string | null;
+  onStart: (workflow: WorkflowInfo, details: WorkflowDetails) => void;
+}
+
+const ALL_TYPES = 'all';
+
+export function WorkflowPanel({
+  isOpen,
+  onClose,
+  projectType,
+  onProjectTypeChange,
+  focusWorkflow,
+  onStart
+}: WorkflowPanelProps) {
+  const { isOffline } = useConnectionStatus();
+  const { getRole } = useRoles();
+  const { runAbortable, abortAll } = useAbortable();
+  const [workflows, setWorkflows] = useState<WorkflowInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, WorkflowDetails>>({});
+  const [loadingDetailsId, setLoadingDetailsId] = useState<string | null>(null);
+  const handledFocusRef = useRef<string | null>(null);
+
+  const loadWorkflows = useCallback(() => {
+    setIsLoading(true);
+    setError(null);
+    runAbortable(signal => apiService.getWorkflows({ signal }))
+      .then(result => setWorkflows(Array.isArray(result?.workflows) ? result.workflows : []))
+      .catch(err => {
+        if (!isAbortError(err)) setError(describeError(err, 'Failed to load workflows'));
+      })
+      .finally(() => setIsLoading(false));
+  }, [runAbortable]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadWorkflows();
+    } else {
+      abortAll();
+    }
+  }, [isOpen, loadWorkflows, abortAll]);
+
+  const selectWorkflow = useCallback((workflow: WorkflowInfo) => {
+    setSelectedId(workflow.id);
+    if (details[workflow.id]) return;
+
+    setLoadingDetailsId(workflow.id);
+    runAbortable(signal => apiService.getWorkflowContext(workflow.id, { signal }))
+      .then(context => setDetails(prev => ({ ...prev, [workflow.id]: readWorkflowDetails(context) })))
+      .catch(err => {
+        if (!isAbortError(err)) setError(describeError(err, `Failed to load the ${workflow.name} workflow`));
+      })
+      .finally(() => setLoadingDetailsId(current => current === workflow.id ? null : current));
+  }, [details, runAbortable]);
+
+  // Open the workflow a chat suggestion pointed at, once, as soon as the list has loaded
+  useEffect(() => {
+    if (!isOpen) {
+      handledFocusRef.current = null;
+      return;
+    }
+    if (!focusWorkflow || handledFocusRef.current === focusWorkflow) return;
+    const workflow = findWorkflow(workflows, focusWorkflow);
+    if (!workflow) return;
+    handledFocusRef.current = focusWorkflow;
+    selectWorkflow(workflow);
+  }, [isOpen, focusWorkflow, workflows, selectWorkflow]);
+
+  const projectTypes = collectProjectTypes(workflows);
+  const focused = focusWorkflow ? findWorkflow(workflows, focusWorkflow) : undefined;
+  const focusedMissing = !!focusWorkflow && workflows.length > 0 && !focused;
+  // A suggested workflow stays listed even when it is meant for another project type
+  const filtered = filterWorkflows(workflows, projectType);
+  const visible = focused && !filtered.includes(focused) ? [focused, ...filtered] : filtered;
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-[32rem] sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Workflows</SheetTitle>
+          <SheetDescription>
+            Guided BMad workflows from the agent backend. Starting one opens a chat that follows its steps.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-end gap-2 mt-4">
+          <div className="flex-1 space-y-2">
+            <Label>Project type</Label>
+            <Select
+              value={projectType ?? ALL_TYPES}
+              onValueChange={(value) => onProjectTypeChange(value === ALL_TYPES ? undefined : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All project types</SelectItem>
+                {[...new Set([...projectTypes, ...(projectType ? [projectType] : [])])].map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="icon" onClick={loadWorkflows} disabled={isLoading} aria-label="Reload workflows">
+            <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+
+        <OfflineNotice className="mt-4" />
+
+        {error && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {focusedMissing && (
+          <p className="mt-4 text-sm text-muted-foreground">
+            The backend has no workflow called "{focusWorkflow}".
+          </p>
+        )}
+
+        <ScrollArea className="flex-1 mt-4 -mx-2 px-2">
+          {isLoading && workflows.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {workflows.length === 0 ? 'No workflows available.' : `No workflows for ${projectType} projects.`}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {visible.map(workflow => {
+                const isSelected = workflow.id === selectedId;
+                const workflowDetails = details[workflow.id];
+
+                return (
+                  <Card
+                    key={workflow.id}
+                    className={cn("cursor-pointer transition-colors", isSelected && "border-primary")}
+                    onClick={() => selectWorkflow(workflow)}
+                  >
+                    <CardHeader className="pb-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="text-base">{workflow.name}</CardTitle>
+                        {workflow.type && <Badge variant="outline" className="capitalize">{workflow.type}</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{workflow.description}</p>
+                    </CardHeader>
+
+                    {isSelected && (
+                      <CardContent className="space-y-3">
+                        {workflow.project_types?.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {workflow.project_types.map(type => (
+                              <Badge key={type} variant="secondary" className="text-xs">{type}</Badge>
+                            ))}
+                          </div>
+                        )}
+
+                        {loadingDetailsId === workflow.id ? (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Loading steps...
+                          </div>
+                        ) : workflowDetails && (
+                          <>
+                            {workflowDetails.description && workflowDetails.description !== workflow.description && (
+                              <p className="text-sm">{workflowDetails.description}</p>
+                            )}
+                            {workflowDetails.steps.length > 0 ? (
+                              <ol className="space-y-2">
+                                {workflowDetails.steps.map((step, index) => (
+                                  <li key={index} className="flex items-start gap-2 text-sm">
+                                    <span className="w-5 text-right text-muted-foreground">{index + 1}.</span>
+                                    <div className="flex-1">
+                                      <p>{step.label}</p>
+                                      {step.notes && <p className="text-xs text-muted-foreground">{step.notes}</p>}
+                                    </div>
+                                    {step.agent && (
+                                      <Badge className={cn("text-xs text-white", getRoleStyle(step.agent).color)}>
+                                        {getRole(step.agent).label}
+                                      </Badge>
+                                    )}
+                                  </li>
+                                ))}
+                              </ol>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">This workflow lists no steps.</p>
+                            )}
+                          </>
+                        )}
+
+                        <Button
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onStart(workflow, workflowDetails ?? { steps: [] });
+                          }}
+                          disabled={isOffline || loadingDetailsId === workflow.id}
+                          title={isOffline ? 'The agent backend is offline' : undefined}
+                        >
+                          <Play className="w-4 h-4 mr-2" />
+                          Start Workflow
+                        </Button>
+                      </CardContent>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowDown, ArrowRight, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  columnIcons,
+  createColumnId,
+  defaultColumns,
+  type ColumnIcon,
+  type TransitionRule,
+  type WorkflowColumn
+} from '@/lib/workflow';
+import { useRoles } from '@/hooks/use-roles';
+import type { Role, Ticket } from './KanbanBoard';
+
+interface WorkflowSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  columns: WorkflowColumn[];
+  transitions: TransitionRule[];
+  tickets: Ticket[];
+  onSave: (columns: WorkflowColumn[], transitions: TransitionRule[]) => void;
+}
+
+const NO_OWNER = 'none';
+
+export function WorkflowSettingsModal({
+  isOpen,
+  onClose,
+  columns,
+  transitions,
+  tickets,
+  onSave
+}: WorkflowSettingsModalProps) {
+  const [draft, setDraft] = useState<WorkflowColumn[]>(columns);
+  const [rules, setRules] = useState<TransitionRule[]>(transitions);
+  const { roles, getRole } = useRoles();
+
+  // Roles the backend no longer lists stay selectable while the workflow still refers to them
+  const referencedRoles = [...draft.map(column => column.ownerRole), ...rules.flatMap(rule => rule.roles)]
+    .filter((role): role is Role => !!role && !roles.some(known => known.id === role));
+  const roleOptions = [...roles, ...[...new Set(referencedRoles)].map(getRole)];
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(columns);
+      setRules(transitions);
+    }
+  }, [isOpen, columns, transitions]);
+
+  const ticketCount = (columnId: string) => tickets.filter(ticket => ticket.status === columnId).length;
+
+  const updateColumn = (id: string, changes: Partial<WorkflowColumn>) =>
+    setDraft(prev => prev.map(column => column.id === id ? { ...column, ...changes } : column));
+
+  const moveColumn = (index: number, offset: number) =>
+    setDraft(prev => {
+      const next = [...prev];
+      const [column] = next.splice(index, 1);
+      next.splice(index + offset, 0, column);
+      return next;
+    });
+
+  const removeColumn = (id: string) => setDraft(prev => prev.filter(column => column.id !== id));
+
+  const addColumn = () =>
+    setDraft(prev => [...prev, { id: createColumnId('New Column', prev), label: 'New Column', icon: 'flag' }]);
+
+  const updateRule = (index: number, changes: Partial<TransitionRule>) =>
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+
+  const toggleRuleRole = (index: number, role: Role, enabled: boolean) =>
+    setRules(prev => prev.map((rule, i) => i === index
+      ? { ...rule, roles: enabled ? [...rule.roles, role] : rule.roles.filter(r => r !== role) }
+      : rule
+    ));
+
+  const addRule = () =>
+    setRules(prev => [...prev, { from: draft[0].id, to: draft[1]?.id ?? draft[0].id, roles: [] }]);
+
+  // Every move between neighbouring columns, in both directions, open to anyone
+  const suggestRules = () =>
+    setRules(draft.slice(1).flatMap((column, index) => [
+      { from: draft[index].id, to: column.id, roles: [] },
+      { from: column.id, to: draft[index].id, roles: [] }
+    ]));
+
+  const columnExists = (columnId: string) => draft.some(column => column.id === columnId);
+
+  const hasEmptyLabel = draft.some(column => !column.label.trim());
+  // Tickets in removed columns are moved back to the first column on save
+  const orphanedCount = tickets.filter(ticket => !draft.some(column => column.id === ticket.status)).length;
+
+  const handleSave = () => {
+    onSave(
+      draft.map(column => ({ ...column, label: column.label.trim() })),
+      // Rules for removed columns, and no-op rules, would never match a move
+      rules.filter(rule => rule.from !== rule.to && columnExists(rule.from) && columnExists(rule.to))
+    );
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Workflow Settings</DialogTitle>
+          <DialogDescription>
+            Columns run left to right. The first column is the backlog and the last marks work as done;
+            the Developer and QA agents work tickets in the columns they own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="columns" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="self-start">
+            <TabsTrigger value="columns">Columns</TabsTrigger>
+            <TabsTrigger value="transitions">Transitions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="columns" className="flex-1 overflow-y-auto space-y-2 py-2">
+            {draft.map((column, index) => {
+              const Icon = columnIcons[column.icon];
+              const count = ticketCount(column.id);
+
+              return (
+                <div key={column.id} className="rounded-lg border p-2 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex flex-col">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 px-1"
+                        disabled={index === 0}
+                        onClick={() => moveColumn(index, -1)}
+                        aria-label={`Move ${column.label} earlier`}
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 px-1"
+                        disabled={index === draft.length - 1}
+                        onClick={() => moveColumn(index, 1)}
+                        aria-label={`Move ${column.label} later`}
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                    </div>
+
+                    <Select
+                      value={column.icon}
+                      onValueChange={(value) => updateColumn(column.id, { icon: value as ColumnIcon })}
+                    >
+                      <SelectTrigger className="w-16" aria-label="Column icon">
+                        <Icon className="w-4 h-4" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(columnIcons) as ColumnIcon[]).map(name => {
+                          const OptionIcon = columnIcons[name];
+                          return (
+                            <SelectItem key={name} value={name}>
+                              <OptionIcon className="w-4 h-4" />
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+
+                    <Input
+                      value={column.label}
+                      onChange={(e) => updateColumn(column.id, { label: e.target.value })}
+                      placeholder="Column name"
+                      className="flex-1"
+                    />
+
+                    <Select
+                      value={column.ownerRole ?? NO_OWNER}
+                      onValueChange={(value) => updateColumn(column.id, {
+                        ownerRole: value === NO_OWNER ? undefined : value as Role
+                      })}
+                    >
+                      <SelectTrigger className="w-44" aria-label="Owning agent">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_OWNER}>No owning agent</SelectItem>
+                        {roleOptions.map(role => (
+                          <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Badge variant="secondary" className="w-16 justify-center">
+                      {count} {count === 1 ? 'ticket' : 'tickets'}
+                    </Badge>
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={draft.length === 1}
+                      onClick={() => removeColumn(column.id)}
+                      aria-label={`Remove ${column.label}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-4 pl-8 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`wip-${column.id}`} className="font-normal">WIP limit</Label>
+                      <Input
+                        id={`wip-${column.id}`}
+                        type="number"
+                        min={1}
+                        placeholder="None"
+                        className="w-20 h-8"
+                        value={column.wipLimit ?? ''}
+                        onChange={(e) => {
+                          const limit = parseInt(e.target.value);
+                          updateColumn(column.id, { wipLimit: limit > 0 ? limit : undefined });
+                        }}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`wip-enforce-${column.id}`}
+                        checked={!!column.enforceWipLimit}
+                        disabled={!column.wipLimit}
+                        onCheckedChange={(checked) => updateColumn(column.id, { enforceWipLimit: checked === true })}
+                      />
+                      <Label htmlFor={`wip-enforce-${column.id}`} className="font-normal">
+                        Block moves over the limit
+                      </Label>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={addColumn}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Column
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(defaultColumns)}>
+                Reset to Defaults
+              </Button>
+            </div>
+
+            {orphanedCount > 0 && (
+              <p className="text-sm text-warning">
+                {orphanedCount} ticket(s) in removed columns will move to {draft[0]?.label || 'the first column'}.
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="transitions" className="flex-1 overflow-y-auto space-y-2 py-2">
+            <p className="text-sm text-muted-foreground">
+              With no rules, tickets can move between any two columns. Once a rule exists, only the listed
+              moves are allowed, for drags and agents alike. Leave every role unchecked to let anyone make a move.
+            </p>
+
+            {rules.map((rule, index) => (
+              <div key={index} className="rounded-lg border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select value={rule.from} onValueChange={(value) => updateRule(index, { from: value })}>
+                    <SelectTrigger className="flex-1" aria-label="From column">
+                      <SelectValue placeholder="From" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.map(column => (
+                        <SelectItem key={column.id} value={column.id}>{column.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ArrowRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <Select value={rule.to} onValueChange={(value) => updateRule(index, { to: value })}>
+                    <SelectTrigger className="flex-1" aria-label="To column">
+                      <SelectValue placeholder="To" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.map(column => (
+                        <SelectItem key={column.id} value={column.id}>{column.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  {roleOptions.map(role => (
+                    <div key={role.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-${index}-${role.id}`}
+                        checked={rule.roles.includes(role.id)}
+                        onCheckedChange={(checked) => toggleRuleRole(index, role.id, checked === true)}
+                      />
+                      <Label htmlFor={`rule-${index}-${role.id}`} className="font-normal">{role.label}</Label>
+                    </div>
+                  ))}
+                </div>
+                {(!columnExists(rule.from) || !columnExists(rule.to) || rule.from === rule.to) && (
+                  <p className="text-xs text-warning">This rule will be dropped on save.</p>
+                )}
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Rule
+              </Button>
+              <Button variant="ghost" size="sm" onClick={suggestRules}>
+                Step-by-step Flow
+              </Button>
+              {rules.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => setRules([])}>
+                  Allow Any Move
+                </Button>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={hasEmptyLabel}>Save Workflow</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import * as React from "react"
+
+// Runs async work with an AbortSignal that is aborted on unmount, or earlier through abortAll
+export function useAbortable() {
+  const controllersRef = React.useRef(new Set<AbortController>())
+
+  const abortAll = React.useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort())
+    controllersRef.current.clear()
+  }, [])
+
+  React.useEffect(() => abortAll, [abortAll])
+
+  const runAbortable = React.useCallback(async <T,>(task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController()
+    controllersRef.current.add(controller)
+    try {
+      return await task(controller.signal)
+    } finally {
+      controllersRef.current.delete(controller)
+    }
+  }, [])
+
+  return { runAbortable, abortAll }
+}
@@ -0,0 +1,99 @@
+import * as React from "react"
+
+import type { Epic, Ticket } from "@/components/KanbanBoard"
+import { boardRepository, type Board } from "@/lib/boardRepository"
+import { assignMissingRanks } from "@/lib/ranking"
+
+// Loads a board with its epics and tickets, and writes every change back to the repository
+export function useBoardData(boardId: string | undefined) {
+  const [board, setBoard] = React.useState<Board | null>(null)
+  const [epics, setEpics] = React.useState<Epic[]>([])
+  const [tickets, setTickets] = React.useState<Ticket[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  // Only a successfully loaded board is ever saved, so a failed read cannot wipe its epics and tickets
+  const [isLoaded, setIsLoaded] = React.useState(false)
+
+  // The lists as last read from or written to storage, so unchanged state is not re-saved
+  const storedEpics = React.useRef<Epic[] | null>(null)
+  const storedTickets = React.useRef<Ticket[] | null>(null)
+  // Updates merge into the newest board, even when several land before a re-render
+  const latestBoard = React.useRef<Board | null>(null)
+
+  React.useEffect(() => {
+    if (!boardId) return
+    let cancelled = false
+
+    setIsLoading(true)
+    setIsLoaded(false)
+    setError(null)
+
+    Promise.all([
+      boardRepository.getBoard(boardId),
+      boardRepository.getEpics(boardId),
+      boardRepository.getTickets(boardId),
+    ])
+      .then(([loadedBoard, loadedEpics, loadedTickets]) => {
+        if (cancelled) return
+        storedEpics.current = loadedEpics
+        storedTickets.current = loadedTickets
+        latestBoard.current = loadedBoard
+        setBoard(loadedBoard)
+        setEpics(loadedEpics)
+        // Boards saved before tickets had ranks get them here, and the effect below persists them
+        setTickets(assignMissingRanks(loadedTickets))
+        setIsLoaded(true)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error("Failed to load board:", err)
+        setError(err instanceof Error ? err.message : "Failed to load board")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [boardId])
+
+  React.useEffect(() => {
+    if (!boardId || !isLoaded || epics === storedEpics.current) return
+    storedEpics.current = epics
+    boardRepository.saveEpics(boardId, epics).catch((err) => {
+      console.error("Failed to save epics:", err)
+      setError(err instanceof Error ? err.message : "Failed to save epics")
+    })
+  }, [boardId, isLoaded, epics])
+
+  React.useEffect(() => {
+    if (!boardId || !isLoaded || tickets === storedTickets.current) return
+    storedTickets.current = tickets
+    boardRepository.saveTickets(boardId, tickets).catch((err) => {
+      console.error("Failed to save tickets:", err)
+      setError(err instanceof Error ? err.message : "Failed to save tickets")
+    })
+  }, [boardId, isLoaded, tickets])
+
+  // Changes that depend on the board itself, such as a new documentation version, come as a function of it
+  const updateBoard = React.useCallback(async (changes: Partial<Board> | ((board: Board) => Partial<Board>)) => {
+    const current = latestBoard.current
+    if (!current) return
+    const updated = { ...current, ...(typeof changes === "function" ? changes(current) : changes) }
+    latestBoard.current = updated
+    setBoard(updated)
+    await boardRepository.saveBoard(updated)
+  }, [])
+
+  return {
+    board,
+    epics,
+    tickets,
+    isLoading,
+    error,
+    setEpics,
+    setTickets,
+    updateBoard,
+  }
+}
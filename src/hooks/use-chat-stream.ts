@@ -0,0 +1,65 @@
+import * as React from "react"
+
+import { isAbortError, type ChatResponse, type ChatStreamEvent } from "@/lib/api"
+
+export interface ChatStreamResult {
+  text: string
+  response?: ChatResponse
+  aborted: boolean
+}
+
+// Runs one streaming agent request at a time, exposing the partial text and a stop control
+export function useChatStream() {
+  const [isStreaming, setIsStreaming] = React.useState(false)
+  const [streamingText, setStreamingText] = React.useState("")
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  const stopStream = React.useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  // Never let a response land in state after the surface has gone away
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const runStream = React.useCallback(
+    async (
+      start: (signal: AbortSignal) => AsyncGenerator<ChatStreamEvent>
+    ): Promise<ChatStreamResult> => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      setIsStreaming(true)
+      setStreamingText("")
+
+      let text = ""
+      let response: ChatResponse | undefined
+
+      try {
+        for await (const event of start(controller.signal)) {
+          if (event.type === "token") {
+            text += event.token
+            setStreamingText(text)
+          } else {
+            response = event.response
+          }
+        }
+        return { text: response?.response ?? text, response, aborted: false }
+      } catch (error) {
+        if (isAbortError(error)) {
+          return { text, aborted: true }
+        }
+        throw error
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null
+          setIsStreaming(false)
+          setStreamingText("")
+        }
+      }
+    },
+    []
+  )
+
+  return { isStreaming, streamingText, runStream, stopStream }
+}
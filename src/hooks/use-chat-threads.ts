@@ -0,0 +1,45 @@
+import * as React from "react"
+
+import { boardRepository } from "@/lib/boardRepository"
+import type { ChatThread } from "@/lib/chatHistory"
+
+// A board's saved agent conversations, written back to the repository on every change
+export function useChatThreads(boardId: string | undefined) {
+  const [threads, setThreads] = React.useState<ChatThread[]>([])
+  // Only a successfully loaded history is ever saved, so a failed read cannot wipe it
+  const [isLoaded, setIsLoaded] = React.useState(false)
+
+  // The list as last read from or written to storage, so unchanged state is not re-saved
+  const storedThreads = React.useRef<ChatThread[] | null>(null)
+
+  React.useEffect(() => {
+    if (!boardId) return
+    let cancelled = false
+
+    setIsLoaded(false)
+    boardRepository.getChatThreads(boardId)
+      .then((loaded) => {
+        if (cancelled) return
+        storedThreads.current = loaded
+        setThreads(loaded)
+        setIsLoaded(true)
+      })
+      .catch((err) => {
+        if (!cancelled) console.error("Failed to load chat history:", err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [boardId])
+
+  React.useEffect(() => {
+    if (!boardId || !isLoaded || threads === storedThreads.current) return
+    storedThreads.current = threads
+    boardRepository.saveChatThreads(boardId, threads).catch((err) => {
+      console.error("Failed to save chat history:", err)
+    })
+  }, [boardId, isLoaded, threads])
+
+  return { threads, setThreads, isLoaded }
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { connectionMonitor } from "@/lib/connectionMonitor"
+
+// Live backend connection state; agent actions are disabled while it is offline
+export function useConnectionStatus() {
+  const state = React.useSyncExternalStore(connectionMonitor.subscribe, connectionMonitor.getState)
+
+  return {
+    ...state,
+    isOffline: state.status === "offline",
+    checkNow: connectionMonitor.checkNow,
+  }
+}
@@ -0,0 +1,268 @@
+import * as React from "react"
+
+import type { Role, Ticket } from "@/components/KanbanBoard"
+import { isAbortError } from "@/lib/api"
+import { applyImplementation, requestImplementation } from "@/lib/devImplementation"
+import { applyTestReport, requestQaVerdict } from "@/lib/qaVerdict"
+import { selectPipelineQueue, type PipelineConfig, type PipelineGate } from "@/lib/pipeline"
+import { checkMove, type WorkflowPolicy, type WorkflowStages } from "@/lib/workflow"
+
+export type PipelineStatus =
+  | "idle"
+  | "running"
+  | "paused"
+  | "awaiting-approval"
+  | "completed"
+  | "cancelled"
+
+export type PipelineStep = "implementing" | "testing"
+
+export interface PipelineLogEntry {
+  id: number
+  ticketId: string | null
+  message: string
+  level: "info" | "success" | "error"
+  timestamp: Date
+}
+
+export interface PipelineState {
+  status: PipelineStatus
+  queue: string[]
+  currentTicketId: string | null
+  currentStep: PipelineStep | null
+  attempt: number
+  pendingGate: PipelineGate | null
+  log: PipelineLogEntry[]
+}
+
+const initialState: PipelineState = {
+  status: "idle",
+  queue: [],
+  currentTicketId: null,
+  currentStep: null,
+  attempt: 0,
+  pendingGate: null,
+  log: [],
+}
+
+type TicketsUpdater = (update: (tickets: Ticket[]) => Ticket[]) => void
+
+let logCounter = 0
+
+// Drives backlog tickets through the dev and QA agents one at a time
+export function usePipelineRunner(
+  tickets: Ticket[],
+  setTickets: TicketsUpdater,
+  stages: WorkflowStages,
+  policy: WorkflowPolicy
+) {
+  const [state, setState] = React.useState<PipelineState>(initialState)
+
+  // The loop runs across many renders, so it reads live values through refs
+  const ticketsRef = React.useRef(tickets)
+  ticketsRef.current = tickets
+  const stagesRef = React.useRef(stages)
+  stagesRef.current = stages
+  const policyRef = React.useRef(policy)
+  policyRef.current = policy
+  const pausedRef = React.useRef(false)
+  const cancelledRef = React.useRef(false)
+  const resumeRef = React.useRef<((proceed: boolean) => void) | null>(null)
+  const isRunningRef = React.useRef(false)
+  // Aborts the agent request in flight when the run is cancelled
+  const abortRef = React.useRef<AbortController | null>(null)
+
+  React.useEffect(() => () => {
+    cancelledRef.current = true
+    abortRef.current?.abort()
+    resumeRef.current?.(false)
+  }, [])
+
+  const log = React.useCallback((ticketId: string | null, message: string, level: PipelineLogEntry["level"] = "info") => {
+    setState(prev => ({
+      ...prev,
+      log: [...prev.log, { id: logCounter++, ticketId, message, level, timestamp: new Date() }],
+    }))
+  }, [])
+
+  const updateTicket = React.useCallback((ticketId: string, update: (ticket: Ticket) => Ticket) => {
+    setTickets(prev => prev.map(ticket => ticket.id === ticketId ? update(ticket) : ticket))
+    // Keep the ref current for the next step before React re-renders
+    ticketsRef.current = ticketsRef.current.map(ticket => ticket.id === ticketId ? update(ticket) : ticket)
+  }, [setTickets])
+
+  const getTicket = (ticketId: string) => ticketsRef.current.find(ticket => ticket.id === ticketId)
+
+  // Agent moves obey the same transition rules and WIP limits as manual drags
+  const canMove = (ticketId: string, to: string, role: Role) => {
+    const ticket = getTicket(ticketId)
+    if (!ticket) return false
+    const check = checkMove(policyRef.current, ticketsRef.current, ticket, to, role)
+    if (!check.allowed) {
+      log(ticketId, `Move blocked: ${check.reason}`, "error")
+      return false
+    }
+    if (check.warning) log(ticketId, check.warning)
+    return true
+  }
+
+  // Resolves true to continue, false when the run is cancelled (or the gate rejected)
+  const waitForResume = (status: PipelineStatus, pendingGate: PipelineGate | null = null) =>
+    new Promise<boolean>(resolve => {
+      setState(prev => ({ ...prev, status, pendingGate }))
+      resumeRef.current = (proceed) => {
+        resumeRef.current = null
+        setState(prev => ({ ...prev, status: "running", pendingGate: null }))
+        resolve(proceed)
+      }
+    })
+
+  // Between steps: honour pause and cancel requests
+  const checkpoint = async () => {
+    if (cancelledRef.current) return false
+    if (pausedRef.current) {
+      const proceed = await waitForResume("paused")
+      if (!proceed) return false
+    }
+    return !cancelledRef.current
+  }
+
+  const passGate = async (config: PipelineConfig, gate: PipelineGate, ticketId: string) => {
+    if (!config.gates.includes(gate)) return true
+    log(ticketId, `Waiting for approval: ${gate.replace(/-/g, " ")}`)
+    const approved = await waitForResume("awaiting-approval", gate)
+    if (!approved && !cancelledRef.current) {
+      log(ticketId, "Step rejected; leaving the story for manual follow-up", "error")
+    }
+    return approved
+  }
+
+  // The queue is fixed at start, so stories moved by hand since then are left alone
+  const isStillQueued = (ticketId: string) => {
+    if (getTicket(ticketId)?.status === stagesRef.current.backlog) return true
+    log(ticketId, "Story is no longer in the backlog; skipping", "error")
+    return false
+  }
+
+  const processTicket = async (ticketId: string, config: PipelineConfig) => {
+    setState(prev => ({ ...prev, currentTicketId: ticketId, currentStep: null, attempt: 0 }))
+
+    if (!isStillQueued(ticketId)) return
+    if (!(await passGate(config, "before-implementation", ticketId))) return
+    if (!isStillQueued(ticketId)) return
+    if (!canMove(ticketId, stagesRef.current.development, "dev")) return
+    updateTicket(ticketId, ticket => ({ ...ticket, status: stagesRef.current.development, assignee: "dev" }))
+
+    for (let attempt = 1; attempt <= config.maxQaRetries + 1; attempt++) {
+      if (!(await checkpoint())) return
+
+      const ticket = getTicket(ticketId)
+      if (!ticket) {
+        log(ticketId, "Ticket was removed from the board; skipping", "error")
+        return
+      }
+
+      if (!canMove(ticketId, stagesRef.current.testing, "dev")) return
+
+      setState(prev => ({ ...prev, currentStep: "implementing", attempt }))
+      log(ticketId, attempt === 1 ? "Developer agent implementing" : `Developer agent fixing defects (attempt ${attempt})`)
+      const implementation = await requestImplementation(ticket, abortRef.current?.signal)
+      if (cancelledRef.current) return
+      // The board can change during the agent call, so the move is checked again before it is applied
+      const canTest = canMove(ticketId, stagesRef.current.testing, "dev")
+      updateTicket(ticketId, t => applyImplementation(t, implementation, stagesRef.current, { holdStatus: !canTest }))
+      if (!canTest) return
+
+      if (!(await checkpoint())) return
+      if (!(await passGate(config, "before-testing", ticketId))) return
+
+      setState(prev => ({ ...prev, currentStep: "testing" }))
+      log(ticketId, "QA agent testing")
+      const verdict = await requestQaVerdict(getTicket(ticketId) ?? ticket, abortRef.current?.signal)
+      if (cancelledRef.current) return
+
+      if (verdict.verdict === "pass") {
+        log(ticketId, "QA passed", "success")
+        const holdForApproval = config.gates.includes("before-done")
+        const canAccept = !holdForApproval && canMove(ticketId, stagesRef.current.accepted, "qa")
+        updateTicket(ticketId, t => applyTestReport(t, verdict, stagesRef.current, { holdStatus: !canAccept }))
+        if (holdForApproval) {
+          if (!(await passGate(config, "before-done", ticketId))) return
+          if (!canMove(ticketId, stagesRef.current.accepted, "qa")) return
+          updateTicket(ticketId, t => ({ ...t, status: stagesRef.current.accepted }))
+        }
+        return
+      }
+
+      if (verdict.verdict === "blocked") {
+        updateTicket(ticketId, t => applyTestReport(t, verdict, stagesRef.current))
+        log(ticketId, `QA blocked: ${verdict.summary}`, "error")
+        return
+      }
+
+      log(ticketId, `QA failed with ${verdict.defects.length} defect(s)`, "error")
+      const canReturn = canMove(ticketId, stagesRef.current.development, "qa")
+      updateTicket(ticketId, t => applyTestReport(t, verdict, stagesRef.current, { holdStatus: !canReturn }))
+      if (!canReturn) return
+    }
+
+    log(ticketId, `Giving up after ${config.maxQaRetries} QA retries`, "error")
+  }
+
+  const start = async (config: PipelineConfig) => {
+    if (isRunningRef.current) return
+    isRunningRef.current = true
+    pausedRef.current = false
+    cancelledRef.current = false
+    abortRef.current = new AbortController()
+
+    const queue = selectPipelineQueue(ticketsRef.current, stagesRef.current.backlog)
+    setState({ ...initialState, status: "running", queue })
+    log(null, queue.length > 0 ? `Starting pipeline with ${queue.length} stories` : "No backlog stories to process")
+
+    for (const ticketId of queue) {
+      if (!(await checkpoint())) break
+      try {
+        await processTicket(ticketId, config)
+      } catch (error) {
+        if (!isAbortError(error)) {
+          const message = error instanceof Error ? error.message : "Unknown error"
+          log(ticketId, `Stopped on this story: ${message}`, "error")
+        }
+      }
+      setState(prev => ({ ...prev, queue: prev.queue.filter(id => id !== ticketId) }))
+    }
+
+    isRunningRef.current = false
+    abortRef.current = null
+    setState(prev => ({
+      ...prev,
+      status: cancelledRef.current ? "cancelled" : "completed",
+      currentTicketId: null,
+      currentStep: null,
+      pendingGate: null,
+    }))
+    log(null, cancelledRef.current ? "Pipeline cancelled" : "Pipeline finished")
+  }
+
+  const pause = () => {
+    pausedRef.current = true
+    log(null, "Pause requested; stopping after the current step")
+  }
+
+  const resume = () => {
+    pausedRef.current = false
+    if (state.status === "paused") resumeRef.current?.(true)
+  }
+
+  const cancel = () => {
+    cancelledRef.current = true
+    abortRef.current?.abort()
+    resumeRef.current?.(false)
+  }
+
+  const approve = () => resumeRef.current?.(true)
+  const reject = () => resumeRef.current?.(false)
+
+  return { state, start, pause, resume, cancel, approve, reject }
+}
@@ -0,0 +1,16 @@
+import * as React from "react"
+
+import { findRole, roleDirectory } from "@/lib/roles"
+import type { Role } from "@/components/KanbanBoard"
+
+// Agent roles from the backend, falling back to the built-in four while it is unreachable
+export function useRoles() {
+  const state = React.useSyncExternalStore(roleDirectory.subscribe, roleDirectory.getState)
+  const getRole = React.useCallback((roleId: Role) => findRole(state.roles, roleId), [state.roles])
+
+  return {
+    ...state,
+    getRole,
+    refresh: roleDirectory.refresh,
+  }
+}
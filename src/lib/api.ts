@@ -1,5 +1,14 @@
 // API service layer for communicating with the BMad Method backend
-const API_BASE_URL = 'http://localhost:8000';
+import { getApiBaseUrl } from './apiConfig';
+import {
+  ClientError,
+  NetworkError,
+  ParseError,
+  ServerError,
+  TimeoutError,
+  isRetryableError,
+  readErrorDetail
+} from './apiErrors';
 
 export interface ChatRequest {
   message: string;
@@ -31,75 +40,315 @@ export interface WorkflowInfo {
   project_types: string[];
 }
 
+export type ChatStreamEvent =
+  | { type: 'token'; token: string }
+  | { type: 'done'; response: ChatResponse };
+
+// Per-call options accepted by every ApiService method
+export interface ApiCallOptions {
+  signal?: AbortSignal;
+  // Overrides the default timeout for this call; for streams it covers waiting for the first byte
+  timeoutMs?: number;
+}
+
+interface RequestOptions extends ApiCallOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  // Retries for transient failures; only safe for idempotent calls
+  retries?: number;
+}
+
+export const apiTimeouts = {
+  // Board storage, metadata and health checks
+  default: 15000,
+  // Agent calls wait on an LLM, so they get longer
+  agent: 120000
+};
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// fetch rejects with an AbortError DOMException when its signal is aborted
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+// Exponential backoff with jitter: ~500ms, ~1s, ~2s...; rejects early if the caller aborts
+function backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Fetch with a timeout and the caller's signal; maps failures onto the typed ApiError classes
+async function fetchWithTimeout(
+  endpoint: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; clearTimer: () => void }> {
+  if (signal?.aborted) throw abortError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const clearTimer = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${getApiBaseUrl()}${endpoint}`, { ...init, signal: controller.signal });
+  } catch (error) {
+    clearTimer();
+    if (timedOut) throw new TimeoutError(endpoint, timeoutMs);
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(endpoint, error);
+  }
+
+  if (!response.ok) {
+    clearTimer();
+    const detail = readErrorDetail(await response.text().catch(() => ''));
+    throw response.status < 500
+      ? new ClientError(endpoint, response.status, response.statusText, detail)
+      : new ServerError(endpoint, response.status, response.statusText, detail);
+  }
+
+  return { response, clearTimer };
+}
+
+// Parse one Server-Sent Events block ("event: ...\ndata: ...") into its event name and data payload
+function parseSseBlock(block: string): { event: string; data: string } {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  return { event, data: data.join('\n') };
+}
+
 class ApiService {
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}`;
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, signal, timeoutMs = apiTimeouts.default } = options;
+    const retries = options.retries ?? (method === 'POST' ? 0 : DEFAULT_RETRIES);
 
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        ...options,
-      });
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { response, clearTimer } = await fetchWithTimeout(endpoint, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }, timeoutMs, signal);
+
+        try {
+          if (response.status === 204) {
+            return undefined as T;
+          }
+          const text = await response.text();
+          try {
+            return (text ? JSON.parse(text) : undefined) as T;
+          } catch (error) {
+            throw new ParseError(endpoint, error);
+          }
+        } finally {
+          clearTimer();
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (attempt < retries && isRetryableError(error)) {
+          await backoff(attempt, signal);
+          continue;
+        }
+        throw error;
       }
+    }
+  }
+
+  // Server-Sent Events over a POST body: "data: {token}" per chunk, then "event: done" with the full ChatResponse
+  private async *stream(endpoint: string, body: ChatRequest, options: ApiCallOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const { response, clearTimer } = await fetchWithTimeout(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify(body),
+    }, options.timeoutMs ?? apiTimeouts.agent, options.signal);
+    // Tokens keep arriving for as long as the agent writes; only the wait for the response is timed
+    clearTimer();
 
-      return await response.json();
-    } catch (error) {
-      console.error(`API request failed for ${endpoint}:`, error);
-      throw error;
+    if (!response.body) {
+      throw new ParseError(endpoint);
+    }
+
+    // The timeout controller is gone, so stop reading when the caller aborts
+    const reader = response.body.getReader();
+    const onAbort = () => reader.cancel().catch(() => undefined);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          if (options.signal?.aborted) throw abortError();
+          throw new NetworkError(endpoint, error);
+        }
+        if (options.signal?.aborted) throw abortError();
+        if (chunk.done) break;
+
+        buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const { event, data } = parseSseBlock(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          if (!data || data === '[DONE]') continue;
+
+          let payload;
+          try {
+            payload = JSON.parse(data);
+          } catch (error) {
+            throw new ParseError(endpoint, error);
+          }
+          if (event === 'error') {
+            throw new ServerError(endpoint, undefined, 'Agent error', payload.detail ?? data);
+          }
+          if (event === 'done') {
+            yield { type: 'done', response: payload as ChatResponse };
+          } else if (typeof payload.token === 'string') {
+            yield { type: 'token', token: payload.token };
+          }
+        }
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      // Closes the connection if the consumer stopped iterating early
+      reader.cancel().catch(() => undefined);
     }
   }
 
   // Chat with a specific role
-  async chatWithRole(roleId: string, request: ChatRequest): Promise<ChatResponse> {
+  async chatWithRole(roleId: string, request: ChatRequest, options: ApiCallOptions = {}): Promise<ChatResponse> {
     return this.request<ChatResponse>(`/chat/${roleId}`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: request,
+      timeoutMs: apiTimeouts.agent,
+      ...options,
     });
   }
 
+  // Stream a chat with a specific role, yielding tokens as they arrive
+  streamChatWithRole(roleId: string, request: ChatRequest, options: ApiCallOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    return this.stream(`/chat/${roleId}/stream`, request, options);
+  }
+
   // Get all available roles
-  async getRoles(): Promise<RoleInfo[]> {
-    return this.request<RoleInfo[]>('/roles');
+  async getRoles(options: ApiCallOptions = {}): Promise<RoleInfo[]> {
+    return this.request<RoleInfo[]>('/roles', options);
   }
 
   // Get all available workflows
-  async getWorkflows(): Promise<{ workflows: WorkflowInfo[] }> {
-    return this.request<{ workflows: WorkflowInfo[] }>('/workflows');
+  async getWorkflows(options: ApiCallOptions = {}): Promise<{ workflows: WorkflowInfo[] }> {
+    return this.request<{ workflows: WorkflowInfo[] }>('/workflows', options);
   }
 
   // Get role context
-  async getRoleContext(roleId: string): Promise<any> {
-    return this.request(`/context/${roleId}`);
+  async getRoleContext(roleId: string, options: ApiCallOptions = {}): Promise<any> {
+    return this.request(`/context/${roleId}`, options);
   }
 
   // Get workflow context
-  async getWorkflowContext(workflowId: string): Promise<any> {
-    return this.request(`/workflow/${workflowId}`);
+  async getWorkflowContext(workflowId: string, options: ApiCallOptions = {}): Promise<any> {
+    return this.request(`/workflow/${workflowId}`, options);
   }
 
   // Orchestrate request (auto-route to appropriate role)
-  async orchestrate(request: ChatRequest): Promise<ChatResponse> {
+  async orchestrate(request: ChatRequest, options: ApiCallOptions = {}): Promise<ChatResponse> {
     return this.request<ChatResponse>('/orchestrate', {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: request,
+      timeoutMs: apiTimeouts.agent,
+      ...options,
     });
   }
 
-  // Health check
-  async healthCheck(): Promise<any> {
-    return this.request('/');
+  // Streaming variant of orchestrate
+  streamOrchestrate(request: ChatRequest, options: ApiCallOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    return this.stream('/orchestrate/stream', request, options);
+  }
+
+  // Board persistence
+  async getBoards(options: ApiCallOptions = {}): Promise<Record<string, unknown>[]> {
+    return this.request<Record<string, unknown>[]>('/boards', options);
+  }
+
+  async getBoard(boardId: string, options: ApiCallOptions = {}): Promise<Record<string, unknown>> {
+    return this.request<Record<string, unknown>>(`/boards/${boardId}`, options);
+  }
+
+  async saveBoard(boardId: string, board: Record<string, unknown>, options: ApiCallOptions = {}): Promise<void> {
+    await this.request(`/boards/${boardId}`, { method: 'PUT', body: board, ...options });
+  }
+
+  async deleteBoard(boardId: string, options: ApiCallOptions = {}): Promise<void> {
+    await this.request(`/boards/${boardId}`, { method: 'DELETE', ...options });
+  }
+
+  async getBoardItems(
+    boardId: string,
+    collection: 'epics' | 'tickets' | 'threads',
+    options: ApiCallOptions = {}
+  ): Promise<Record<string, unknown>[]> {
+    return this.request<Record<string, unknown>[]>(`/boards/${boardId}/${collection}`, options);
+  }
+
+  async saveBoardItems(
+    boardId: string,
+    collection: 'epics' | 'tickets' | 'threads',
+    items: unknown[],
+    options: ApiCallOptions = {}
+  ): Promise<void> {
+    await this.request(`/boards/${boardId}/${collection}`, { method: 'PUT', body: items, ...options });
+  }
+
+  // Health check; the connection monitor does its own polling, so no retries
+  async healthCheck(options: ApiCallOptions = {}): Promise<any> {
+    return this.request('/', { retries: 0, ...options });
   }
 }
 
 // Export singleton instance
 export const apiService = new ApiService();
 
-// Export types
-export type { ChatRequest, ChatResponse, RoleInfo, WorkflowInfo };
-
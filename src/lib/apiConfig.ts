@@ -0,0 +1,48 @@
+// Backend base URL: the build's VITE_API_BASE_URL, unless the user overrides it in Settings
+const FALLBACK_BASE_URL = 'http://localhost:8000';
+const OVERRIDE_STORAGE_KEY = 'agentboard.apiBaseUrl';
+
+export const defaultApiBaseUrl = import.meta.env.VITE_API_BASE_URL || FALLBACK_BASE_URL;
+
+type Listener = (baseUrl: string) => void;
+const listeners = new Set<Listener>();
+
+function normalize(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+export function getApiBaseUrlOverride(): string | null {
+  try {
+    return localStorage.getItem(OVERRIDE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function getApiBaseUrl(): string {
+  return getApiBaseUrlOverride() ?? defaultApiBaseUrl;
+}
+
+// Pass null to go back to the build default
+export function setApiBaseUrlOverride(url: string | null): void {
+  if (url && normalize(url) !== normalize(defaultApiBaseUrl)) {
+    localStorage.setItem(OVERRIDE_STORAGE_KEY, normalize(url));
+  } else {
+    localStorage.removeItem(OVERRIDE_STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener(getApiBaseUrl()));
+}
+
+export function isValidApiBaseUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function onApiBaseUrlChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,101 @@
+// Typed failures from the backend API, so callers can tell a dropped connection from a rejected request
+export type ApiErrorKind = 'network' | 'timeout' | 'client' | 'server' | 'parse';
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ApiErrorKind,
+    public readonly endpoint: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The request never reached the server, or the connection dropped
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, cause?: unknown) {
+    super(`Could not reach the backend${cause instanceof Error ? `: ${cause.message}` : ''}`, 'network', endpoint);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(endpoint: string, public readonly timeoutMs: number) {
+    super(`The backend did not respond within ${Math.round(timeoutMs / 1000)} seconds`, 'timeout', endpoint);
+    this.name = 'TimeoutError';
+  }
+}
+
+// 4xx: the server understood the request and rejected it; `detail` is its explanation when it sent one
+export class ClientError extends ApiError {
+  constructor(endpoint: string, status: number, statusText: string, public readonly detail?: string) {
+    super(detail ? `${status} ${statusText}: ${detail}` : `${status} ${statusText}`, 'client', endpoint, status);
+    this.name = 'ClientError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(endpoint: string, status: number | undefined, statusText: string, public readonly detail?: string) {
+    super(
+      [status, statusText].filter(Boolean).join(' ') + (detail ? `: ${detail}` : ''),
+      'server',
+      endpoint,
+      status
+    );
+    this.name = 'ServerError';
+  }
+}
+
+// The server answered 2xx but the body was not the JSON we expected
+export class ParseError extends ApiError {
+  constructor(endpoint: string, cause?: unknown) {
+    super(`Unreadable response from the backend${cause instanceof Error ? `: ${cause.message}` : ''}`, 'parse', endpoint);
+    this.name = 'ParseError';
+  }
+}
+
+// FastAPI-style error bodies: {"detail": "..."} or {"detail": [{"msg": "..."}]}
+export function readErrorDetail(body: string): string | undefined {
+  if (!body) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    const detail = parsed?.detail ?? parsed?.message ?? parsed?.error;
+    if (typeof detail === 'string') return detail;
+    if (Array.isArray(detail)) {
+      return detail.map(item => item?.msg ?? JSON.stringify(item)).join('; ');
+    }
+    return detail ? JSON.stringify(detail) : undefined;
+  } catch {
+    return body.length <= 200 ? body : undefined;
+  }
+}
+
+// Worth another try: the failure may be gone a moment later
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  if (error instanceof ServerError) return error.status === undefined || error.status >= 500;
+  return error instanceof ClientError && error.status === 429;
+}
+
+const kindTitles: Record<ApiErrorKind, string> = {
+  network: 'Connection failed',
+  timeout: 'Request timed out',
+  client: 'Request rejected',
+  server: 'Backend error',
+  parse: 'Unexpected response'
+};
+
+export interface ErrorDescription {
+  title: string;
+  message: string;
+}
+
+// Title and message for an error Alert; non-API errors fall back to their own message
+export function describeError(error: unknown, fallback: string): ErrorDescription {
+  if (error instanceof ApiError) {
+    return { title: kindTitles[error.kind], message: error.message };
+  }
+  return { title: 'Error', message: error instanceof Error ? error.message : fallback };
+}
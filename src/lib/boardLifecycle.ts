@@ -0,0 +1,77 @@
+// Board lifecycle beyond creation: status changes, archiving, cloning and deletion
+import { boardRepository, type Board } from './boardRepository';
+import { defaultColumns } from './workflow';
+import { assignMissingRanks } from './ranking';
+import type { Epic, Ticket } from '@/components/KanbanBoard';
+
+export const boardStatuses: { value: Board['status']; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'active', label: 'Active' },
+  { value: 'completed', label: 'Completed' }
+];
+
+export interface CloneOptions {
+  name: string;
+  // Copy epics and tickets too, with every ticket back in the first column
+  includeTickets: boolean;
+}
+
+export const isArchived = (board: Board) => !!board.archivedAt;
+
+export async function setBoardArchived(board: Board, archived: boolean): Promise<Board> {
+  const updated: Board = { ...board, archivedAt: archived ? new Date() : undefined };
+  await boardRepository.saveBoard(updated);
+  return updated;
+}
+
+// Agent runs, chat links and positions belong to the original board's history, not the copy
+function resetTicket(ticket: Ticket, backlogStatus: string): Ticket {
+  return {
+    id: ticket.id,
+    title: ticket.title,
+    description: ticket.description,
+    status: backlogStatus,
+    assignee: ticket.assignee,
+    priority: ticket.priority,
+    storyPoints: ticket.storyPoints,
+    epicId: ticket.epicId,
+    acceptanceCriteria: ticket.acceptanceCriteria,
+    // The documentation is copied too, so section links still apply
+    prdSections: ticket.prdSections
+  };
+}
+
+// Copies documentation and workflow settings; conversations and documentation history stay with the original
+export async function cloneBoard(source: Board, options: CloneOptions): Promise<Board> {
+  const clone: Board = {
+    ...source,
+    id: Date.now().toString(),
+    name: options.name.trim(),
+    createdAt: new Date(),
+    status: source.documentation ? 'active' : 'draft',
+    archivedAt: undefined,
+    setup: undefined,
+    docVersions: undefined
+  };
+  await boardRepository.saveBoard(clone);
+
+  if (options.includeTickets) {
+    const [epics, tickets] = await Promise.all([
+      boardRepository.getEpics(source.id),
+      boardRepository.getTickets(source.id)
+    ]);
+    const backlogStatus = (source.columns ?? defaultColumns)[0].id;
+    const copiedEpics: Epic[] = epics.map(epic => ({ ...epic }));
+    const copiedTickets = assignMissingRanks(tickets.map(ticket => resetTicket(ticket, backlogStatus)));
+    await Promise.all([
+      boardRepository.saveEpics(clone.id, copiedEpics),
+      boardRepository.saveTickets(clone.id, copiedTickets)
+    ]);
+  }
+
+  return clone;
+}
+
+export function deleteBoard(board: Board): Promise<void> {
+  return boardRepository.deleteBoard(board.id);
+}
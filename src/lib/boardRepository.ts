@@ -0,0 +1,278 @@
+// Board persistence layer: boards, epics and tickets keyed by board id
+import { z } from 'zod';
+import { apiService } from './api';
+import { ClientError } from './apiErrors';
+import type { Epic, Ticket } from '@/components/KanbanBoard';
+import { reviveThread, type ChatThread } from './chatHistory';
+import { implementationSchema } from './devImplementation';
+import { qaVerdictSchema } from './qaVerdict';
+import type { PipelineConfig } from './pipeline';
+import type { SetupProgress } from './boardSetup';
+import type { DocVersion } from './documentVersions';
+import type { TransitionRule, WorkflowColumn } from './workflow';
+
+// Persisted records keep dates as ISO strings, since JSON has no Date type
+export type IsoTimestamp = string;
+
+export interface Board {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: Date;
+  status: 'draft' | 'active' | 'completed';
+  memberCount: number;
+  documentation?: string;
+  pipeline?: PipelineConfig;
+  columns?: WorkflowColumn[];
+  transitions?: TransitionRule[];
+  // Matched against WorkflowInfo.project_types to pick the workflows offered on this board
+  projectType?: string;
+  // Archived boards are hidden from the main list but keep all their data
+  archivedAt?: Date;
+  // Where the setup wizard left off; see lib/boardSetup
+  setup?: SetupProgress;
+  // Every saved revision of the documentation, oldest first; see lib/documentVersions
+  docVersions?: DocVersion[];
+}
+
+export interface BoardRepository {
+  listBoards(): Promise<Board[]>;
+  getBoard(boardId: string): Promise<Board | null>;
+  saveBoard(board: Board): Promise<void>;
+  deleteBoard(boardId: string): Promise<void>;
+  getEpics(boardId: string): Promise<Epic[]>;
+  saveEpics(boardId: string, epics: Epic[]): Promise<void>;
+  getTickets(boardId: string): Promise<Ticket[]>;
+  saveTickets(boardId: string, tickets: Ticket[]): Promise<void>;
+  getChatThreads(boardId: string): Promise<ChatThread[]>;
+  saveChatThreads(boardId: string, threads: ChatThread[]): Promise<void>;
+}
+
+const DB_NAME = 'agentboard';
+const DB_VERSION = 2;
+const BOARDS_STORE = 'boards';
+const EPICS_STORE = 'epics';
+const TICKETS_STORE = 'tickets';
+const THREADS_STORE = 'chatThreads';
+
+type ItemStore = typeof EPICS_STORE | typeof TICKETS_STORE | typeof THREADS_STORE;
+
+// Epics and tickets are stored as one record per board so a save replaces the whole list
+interface BoardItems<T> {
+  boardId: string;
+  items: T[];
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbBoardRepository implements BoardRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(BOARDS_STORE)) {
+            db.createObjectStore(BOARDS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(EPICS_STORE)) {
+            db.createObjectStore(EPICS_STORE, { keyPath: 'boardId' });
+          }
+          if (!db.objectStoreNames.contains(TICKETS_STORE)) {
+            db.createObjectStore(TICKETS_STORE, { keyPath: 'boardId' });
+          }
+          if (!db.objectStoreNames.contains(THREADS_STORE)) {
+            db.createObjectStore(THREADS_STORE, { keyPath: 'boardId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async listBoards(): Promise<Board[]> {
+    const store = await this.store(BOARDS_STORE, 'readonly');
+    const boards = await promisify<Board[]>(store.getAll());
+    return boards.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getBoard(boardId: string): Promise<Board | null> {
+    const store = await this.store(BOARDS_STORE, 'readonly');
+    const board = await promisify<Board | undefined>(store.get(boardId));
+    return board ?? null;
+  }
+
+  async saveBoard(board: Board): Promise<void> {
+    const store = await this.store(BOARDS_STORE, 'readwrite');
+    await promisify(store.put(board));
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([BOARDS_STORE, EPICS_STORE, TICKETS_STORE, THREADS_STORE], 'readwrite');
+    tx.objectStore(BOARDS_STORE).delete(boardId);
+    tx.objectStore(EPICS_STORE).delete(boardId);
+    tx.objectStore(TICKETS_STORE).delete(boardId);
+    tx.objectStore(THREADS_STORE).delete(boardId);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async getItems<T>(name: ItemStore, boardId: string): Promise<T[]> {
+    const store = await this.store(name, 'readonly');
+    const record = await promisify<BoardItems<T> | undefined>(store.get(boardId));
+    return record?.items ?? [];
+  }
+
+  private async saveItems<T>(name: ItemStore, boardId: string, items: T[]): Promise<void> {
+    const store = await this.store(name, 'readwrite');
+    const record: BoardItems<T> = { boardId, items };
+    await promisify(store.put(record));
+  }
+
+  getEpics(boardId: string): Promise<Epic[]> {
+    return this.getItems<Epic>(EPICS_STORE, boardId);
+  }
+
+  saveEpics(boardId: string, epics: Epic[]): Promise<void> {
+    return this.saveItems(EPICS_STORE, boardId, epics);
+  }
+
+  getTickets(boardId: string): Promise<Ticket[]> {
+    return this.getItems<Ticket>(TICKETS_STORE, boardId);
+  }
+
+  saveTickets(boardId: string, tickets: Ticket[]): Promise<void> {
+    return this.saveItems(TICKETS_STORE, boardId, tickets);
+  }
+
+  getChatThreads(boardId: string): Promise<ChatThread[]> {
+    return this.getItems<ChatThread>(THREADS_STORE, boardId);
+  }
+
+  saveChatThreads(boardId: string, threads: ChatThread[]): Promise<void> {
+    return this.saveItems(THREADS_STORE, boardId, threads);
+  }
+}
+
+// JSON has no Date type, so timestamps come back from the backend as ISO strings
+function reviveDates<T>(record: Record<string, unknown>, keys: string[]): T {
+  const revived: Record<string, unknown> = { ...record };
+  keys.forEach(key => {
+    if (typeof revived[key] === 'string') {
+      revived[key] = new Date(revived[key] as string);
+    }
+  });
+  return revived as T;
+}
+
+// The backend may send null for a field the board never set
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform(value => value ?? undefined);
+
+const storedTicketSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullish().transform(value => value ?? ''),
+  status: z.string(),
+  assignee: z.string(),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).catch('medium'),
+  storyPoints: optional(z.number()),
+  epicId: optional(z.string()),
+  acceptanceCriteria: optional(z.array(z.string())),
+  testReports: optional(z.array(z.intersection(qaVerdictSchema, z.object({ testedAt: z.string() })))),
+  implementations: optional(z.array(implementationSchema.extend({ implementedAt: z.string() }))),
+  source: optional(z.object({ threadId: z.string(), messageId: z.string() })),
+  prdSections: optional(z.array(z.string())),
+  rank: optional(z.string())
+});
+
+// Tickets from the backend are checked one by one; a malformed ticket is reported and left off the board
+function reviveTickets(records: Record<string, unknown>[]): Ticket[] {
+  return records.flatMap((record, index) => {
+    const parsed = storedTicketSchema.safeParse(record);
+    if (parsed.success) {
+      // zod's inferred types need strict mode, which this project is built without, so every field reads as optional
+      return [parsed.data as Ticket];
+    }
+    console.error(`Skipping invalid ticket ${String(record.id ?? `#${index}`)}:`, parsed.error.issues);
+    return [];
+  });
+}
+
+export class HttpBoardRepository implements BoardRepository {
+  async listBoards(): Promise<Board[]> {
+    const boards = await apiService.getBoards();
+    return boards.map(board => reviveDates<Board>(board, ['createdAt', 'archivedAt']));
+  }
+
+  async getBoard(boardId: string): Promise<Board | null> {
+    try {
+      const board = await apiService.getBoard(boardId);
+      return reviveDates<Board>(board, ['createdAt', 'archivedAt']);
+    } catch (error) {
+      if (error instanceof ClientError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  saveBoard(board: Board): Promise<void> {
+    return apiService.saveBoard(board.id, { ...board });
+  }
+
+  deleteBoard(boardId: string): Promise<void> {
+    return apiService.deleteBoard(boardId);
+  }
+
+  async getEpics(boardId: string): Promise<Epic[]> {
+    const epics = await apiService.getBoardItems(boardId, 'epics');
+    return epics.map(epic => reviveDates<Epic>(epic, ['createdAt']));
+  }
+
+  saveEpics(boardId: string, epics: Epic[]): Promise<void> {
+    return apiService.saveBoardItems(boardId, 'epics', epics);
+  }
+
+  async getTickets(boardId: string): Promise<Ticket[]> {
+    const tickets = await apiService.getBoardItems(boardId, 'tickets');
+    return reviveTickets(tickets);
+  }
+
+  saveTickets(boardId: string, tickets: Ticket[]): Promise<void> {
+    return apiService.saveBoardItems(boardId, 'tickets', tickets);
+  }
+
+  async getChatThreads(boardId: string): Promise<ChatThread[]> {
+    const threads = await apiService.getBoardItems(boardId, 'threads');
+    return threads.map(reviveThread);
+  }
+
+  saveChatThreads(boardId: string, threads: ChatThread[]): Promise<void> {
+    return apiService.saveBoardItems(boardId, 'threads', threads);
+  }
+}
+
+// Local IndexedDB storage unless the build opts into the backend
+export const boardRepository: BoardRepository =
+  import.meta.env.VITE_BOARD_STORAGE === 'http'
+    ? new HttpBoardRepository()
+    : new IndexedDbBoardRepository();
@@ -0,0 +1,47 @@
+// The board setup wizard's saved state: the requirements conversation with the analyst and how far it got
+import type { Board, IsoTimestamp } from './boardRepository';
+import { saveDocumentation } from './documentVersions';
+
+export type SetupStep = 'chat' | 'generate' | 'complete';
+
+export interface SetupMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'agent';
+  timestamp: IsoTimestamp;
+  type?: 'welcome' | 'documentation' | 'complete';
+}
+
+export interface SetupProgress {
+  // 'generate' is never saved; a generation cut short resumes in the conversation
+  step: Exclude<SetupStep, 'generate'>;
+  messages: SetupMessage[];
+}
+
+export function welcomeMessage(board: Board): SetupMessage {
+  return {
+    id: 'welcome',
+    content: `Hello! I'm your Business Analyst AI. I'll help you create comprehensive documentation for your new board "${board.name}".
+
+Please tell me about your project - what kind of application are you building? What are the main features and requirements?`,
+    sender: 'agent',
+    timestamp: new Date().toISOString(),
+    type: 'welcome'
+  };
+}
+
+// Boards set up before progress was saved have documentation but no conversation
+export function restoreSetup(board: Board): SetupProgress {
+  if (board.setup?.messages?.length) return board.setup;
+  return { step: board.documentation ? 'complete' : 'chat', messages: [welcomeMessage(board)] };
+}
+
+// Completing setup makes a draft board active; boards already past draft keep their status
+export function completeSetup(board: Board, documentation: string, messages: SetupMessage[]): Board {
+  return {
+    ...board,
+    ...saveDocumentation(board, documentation, 'agent'),
+    status: board.status === 'draft' ? 'active' : board.status,
+    setup: { step: 'complete', messages }
+  };
+}
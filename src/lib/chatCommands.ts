@@ -0,0 +1,110 @@
+// Slash commands and #ticket / @epic mentions typed into the chat input
+import type { Epic, Role, Ticket } from '@/components/KanbanBoard';
+
+export type PaletteTrigger = '/' | '#' | '@';
+
+// The token under the caret that the palette completes
+export interface PaletteToken {
+  trigger: PaletteTrigger;
+  query: string;
+  start: number;
+  end: number;
+}
+
+export interface PaletteItem {
+  // Text that replaces the token, without the trailing space
+  insert: string;
+  label: string;
+  detail?: string;
+}
+
+export interface ParsedCommand {
+  // The command as the backend lists it
+  command: string;
+  args: string;
+}
+
+const MAX_ITEMS = 8;
+
+// Backend commands may carry BMad's '*' prefix; the palette always shows them after a '/'
+export const commandName = (command: string) => command.trim().replace(/^[*/]+/, '');
+
+// Mentions anywhere after whitespace, including in a command's arguments; commands only at the start
+export function findPaletteToken(text: string, caret: number): PaletteToken | null {
+  const before = text.slice(0, caret);
+  const mention = before.match(/(^|\s)([#@])([\w.-]*)$/);
+  if (mention) {
+    const start = caret - mention[2].length - mention[3].length;
+    return { trigger: mention[2] as PaletteTrigger, query: mention[3], start, end: caret };
+  }
+
+  const command = before.match(/^\/([^\n]*)$/);
+  return command ? { trigger: '/', query: command[1], start: 0, end: caret } : null;
+}
+
+const matches = (query: string, ...fields: (string | undefined)[]) =>
+  !query || fields.some(field => field?.toLowerCase().includes(query.toLowerCase()));
+
+export function paletteItems(
+  token: PaletteToken,
+  sources: { commands: string[]; tickets: Ticket[]; epics: Epic[] }
+): PaletteItem[] {
+  if (token.trigger === '/') {
+    // A trailing space means the command is complete unless a longer one continues it
+    const query = token.query.toLowerCase();
+    return sources.commands
+      .filter(command => /\s$/.test(query)
+        ? commandName(command).toLowerCase().startsWith(query)
+        : matches(query, commandName(command)))
+      .slice(0, MAX_ITEMS)
+      .map(command => ({ insert: `/${commandName(command)}`, label: `/${commandName(command)}` }));
+  }
+  if (token.trigger === '#') {
+    return sources.tickets
+      .filter(ticket => matches(token.query, ticket.id, ticket.title))
+      .slice(0, MAX_ITEMS)
+      .map(ticket => ({ insert: `#${ticket.id}`, label: ticket.id, detail: ticket.title }));
+  }
+  return sources.epics
+    .filter(epic => matches(token.query, epic.id, epic.title))
+    .slice(0, MAX_ITEMS)
+    .map(epic => ({ insert: `@${epic.id}`, label: epic.id, detail: epic.title }));
+}
+
+export function applyPaletteItem(text: string, token: PaletteToken, item: PaletteItem): { text: string; caret: number } {
+  const rest = text.slice(token.end).replace(/^\s+/, '');
+  const inserted = `${item.insert} `;
+  return { text: `${text.slice(0, token.start)}${inserted}${rest}`, caret: token.start + inserted.length };
+}
+
+// "/implement story 1.2" -> the longest listed command that starts the message, plus what follows it
+export function parseCommand(text: string, commands: string[]): ParsedCommand | null {
+  if (!text.startsWith('/')) return null;
+  const body = text.slice(1);
+  const lower = body.toLowerCase();
+  const command = [...commands]
+    .sort((a, b) => commandName(b).length - commandName(a).length)
+    .find(candidate => {
+      const name = commandName(candidate).toLowerCase();
+      return name && lower.startsWith(name) && (lower.length === name.length || /\s/.test(lower[name.length]));
+    });
+  if (!command) return null;
+  return { command, args: body.slice(commandName(command).length).trim() };
+}
+
+// BMad agents take commands as "<role> <command> <arguments>", e.g. "dev implement story 1.2"
+export function formatCommand(roleId: Role, command: string, args = ''): string {
+  return [roleId, command.trim(), args.trim()].filter(Boolean).join(' ');
+}
+
+// Tickets and epics named with #id and @id that exist on the board
+export function resolveMentions(text: string, tickets: Ticket[], epics: Epic[]): { tickets: Ticket[]; epics: Epic[] } {
+  const ids = (trigger: PaletteTrigger) =>
+    new Set([...text.matchAll(new RegExp(`(?:^|\\s)\\${trigger}([\\w.-]+)`, 'g'))].map(match => match[1].replace(/\.$/, '')));
+  const ticketIds = ids('#');
+  const epicIds = ids('@');
+  return {
+    tickets: tickets.filter(ticket => ticketIds.has(ticket.id)),
+    epics: epics.filter(epic => epicIds.has(epic.id))
+  };
+}
@@ -0,0 +1,105 @@
+// Saved agent conversations, scoped to a board, the role they were started with and optionally a ticket
+import type { Role } from '@/components/KanbanBoard';
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  // 'system' marks hand-offs in the timeline; it is never sent to agents
+  sender: 'user' | 'agent' | 'system';
+  timestamp: Date;
+  // Agent that wrote the message
+  role?: Role;
+  // Set when the orchestrator chose the agent
+  routed?: boolean;
+  suggestions?: string[];
+  context_used?: string;
+  workflow_suggestions?: string[];
+  // Tickets created from, or given acceptance criteria by, this message
+  ticketIds?: string[];
+}
+
+export interface ChatThread {
+  id: string;
+  // Agent the thread belongs to; null for "Ask the team" threads
+  role: Role | null;
+  ticketId?: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ChatMessage[];
+}
+
+export interface ChatScope {
+  role: Role | null;
+  ticketId?: string;
+}
+
+// How much of a thread goes back to the agent as `previous_messages`
+const HISTORY_LIMIT = 20;
+const TITLE_LENGTH = 60;
+
+export function isInScope(thread: ChatThread, scope: ChatScope): boolean {
+  return (thread.role ?? null) === (scope.role ?? null) && (thread.ticketId ?? null) === (scope.ticketId ?? null);
+}
+
+// Most recently active first
+export function threadsInScope(threads: ChatThread[], scope: ChatScope): ChatThread[] {
+  return threads
+    .filter(thread => isInScope(thread, scope))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+let threadCounter = 0;
+
+// Named after its first message
+export function createThread(scope: ChatScope, firstMessage: string): ChatThread {
+  const now = new Date();
+  const title = firstMessage.replace(/\s+/g, ' ').trim();
+  return {
+    id: `thread-${now.getTime()}-${threadCounter++}`,
+    role: scope.role,
+    ticketId: scope.ticketId,
+    title: title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title,
+    createdAt: now,
+    updatedAt: now,
+    messages: []
+  };
+}
+
+export function appendMessages(thread: ChatThread, messages: ChatMessage[]): ChatThread {
+  return { ...thread, messages: [...thread.messages, ...messages], updatedAt: new Date() };
+}
+
+export function linkTicket(threads: ChatThread[], threadId: string, messageId: string, ticketId: string): ChatThread[] {
+  return threads.map(thread => thread.id !== threadId ? thread : {
+    ...thread,
+    messages: thread.messages.map(message => message.id !== messageId || message.ticketIds?.includes(ticketId)
+      ? message
+      : { ...message, ticketIds: [...(message.ticketIds ?? []), ticketId] })
+  });
+}
+
+// The thread's own history in the shape the backend expects for `previous_messages`
+export function toPreviousMessages(messages: ChatMessage[]) {
+  return messages
+    .filter(message => message.sender !== 'system')
+    .slice(-HISTORY_LIMIT)
+    .map(message => ({
+      sender: message.sender,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp.toISOString()
+    }));
+}
+
+// JSON has no Date type; threads from the backend carry ISO strings at two levels
+export function reviveThread(record: Record<string, unknown>): ChatThread {
+  const thread = record as unknown as ChatThread;
+  return {
+    ...thread,
+    role: thread.role ?? null,
+    createdAt: new Date(thread.createdAt),
+    updatedAt: new Date(thread.updatedAt),
+    messages: (thread.messages ?? []).map(message => ({ ...message, timestamp: new Date(message.timestamp) }))
+  };
+}
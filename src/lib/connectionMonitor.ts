@@ -0,0 +1,127 @@
+// Polls the backend health check and tracks whether agents are reachable
+import { apiService } from './api';
+import { getApiBaseUrl, onApiBaseUrlChange } from './apiConfig';
+import { ClientError, ServerError, TimeoutError } from './apiErrors';
+
+export type ConnectionStatus = 'checking' | 'online' | 'degraded' | 'offline';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  baseUrl: string;
+  lastChecked: Date | null;
+  latencyMs: number | null;
+  // Why the backend is degraded or offline
+  detail: string | null;
+}
+
+const POLL_INTERVAL_MS = 15000;
+const OFFLINE_POLL_INTERVAL_MS = 5000;
+const TIMEOUT_MS = 5000;
+// Slower answers than this still count as up, but degraded
+const DEGRADED_LATENCY_MS = 2000;
+
+type Listener = () => void;
+
+class ConnectionMonitor {
+  private state: ConnectionState = {
+    status: 'checking',
+    baseUrl: getApiBaseUrl(),
+    lastChecked: null,
+    latencyMs: null,
+    detail: null
+  };
+  private listeners = new Set<Listener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: AbortController | null = null;
+  private unsubscribeBaseUrl: (() => void) | null = null;
+
+  getState = (): ConnectionState => this.state;
+
+  // Polling runs only while something is subscribed
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.startPolling();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stopPolling();
+    };
+  };
+
+  checkNow = async (): Promise<void> => {
+    this.inFlight?.abort();
+    const controller = new AbortController();
+    this.inFlight = controller;
+    const started = performance.now();
+
+    let next: Pick<ConnectionState, 'status' | 'latencyMs' | 'detail'>;
+    try {
+      const health = await apiService.healthCheck({ signal: controller.signal, timeoutMs: TIMEOUT_MS });
+      const latencyMs = Math.round(performance.now() - started);
+      const reported = typeof health?.status === 'string' ? health.status.toLowerCase() : null;
+
+      if (reported && !['ok', 'healthy', 'online'].includes(reported)) {
+        next = { status: 'degraded', latencyMs, detail: `Backend reports status "${health.status}"` };
+      } else if (latencyMs > DEGRADED_LATENCY_MS) {
+        next = { status: 'degraded', latencyMs, detail: `Slow response (${latencyMs} ms)` };
+      } else {
+        next = { status: 'online', latencyMs, detail: null };
+      }
+    } catch (error) {
+      // A newer check replaced this one
+      if (this.inFlight !== controller) return;
+
+      if (error instanceof TimeoutError) {
+        next = { status: 'offline', latencyMs: null, detail: `No response within ${TIMEOUT_MS / 1000} s` };
+      } else if (error instanceof ClientError || error instanceof ServerError) {
+        // The server answered, but with an error
+        next = { status: 'degraded', latencyMs: null, detail: error.message };
+      } else {
+        next = { status: 'offline', latencyMs: null, detail: 'Backend unreachable' };
+      }
+    }
+
+    if (this.inFlight !== controller) return;
+    this.inFlight = null;
+    this.setState({ ...next, baseUrl: getApiBaseUrl(), lastChecked: new Date() });
+    this.scheduleNext();
+  };
+
+  private setState(state: ConnectionState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private scheduleNext() {
+    if (this.listeners.size === 0) return;
+    if (this.timer) clearTimeout(this.timer);
+    const delay = this.state.status === 'offline' ? OFFLINE_POLL_INTERVAL_MS : POLL_INTERVAL_MS;
+    this.timer = setTimeout(this.checkNow, delay);
+  }
+
+  private handleBrowserOnline = () => {
+    this.checkNow();
+  };
+
+  private handleBaseUrlChange = (baseUrl: string) => {
+    this.setState({ status: 'checking', baseUrl, lastChecked: null, latencyMs: null, detail: null });
+    this.checkNow();
+  };
+
+  private startPolling() {
+    window.addEventListener('online', this.handleBrowserOnline);
+    this.unsubscribeBaseUrl = onApiBaseUrlChange(this.handleBaseUrlChange);
+    this.checkNow();
+  }
+
+  private stopPolling() {
+    window.removeEventListener('online', this.handleBrowserOnline);
+    this.unsubscribeBaseUrl?.();
+    this.unsubscribeBaseUrl = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.inFlight?.abort();
+    this.inFlight = null;
+  }
+}
+
+export const connectionMonitor = new ConnectionMonitor();
@@ -0,0 +1,115 @@
+// Typed contract for what the Developer agent produced when implementing a story
+import { z } from 'zod';
+import { requestStructured } from './structuredResponse';
+import { formatCommand } from './chatCommands';
+import type { Ticket } from '@/components/KanbanBoard';
+import type { WorkflowStages } from './workflow';
+import type { IsoTimestamp } from './boardRepository';
+
+const CHANGE_TYPES = ['added', 'modified', 'deleted'] as const;
+
+export const implementationSchema = z.object({
+  summary: z.string().trim().min(1),
+  file_changes: z.array(z.object({
+    path: z.string().trim().min(1),
+    change_type: z.enum(CHANGE_TYPES),
+    description: z.string().trim().default('')
+  })).default([]),
+  code_snippets: z.array(z.object({
+    path: z.string().trim().optional(),
+    language: z.string().trim().default(''),
+    code: z.string().min(1),
+    description: z.string().trim().optional()
+  })).default([]),
+  open_questions: z.array(z.string().trim().min(1)).default([])
+});
+
+export type ImplementationResult = z.infer<typeof implementationSchema>;
+
+const implementationJsonSchema = {
+  type: 'object',
+  required: ['summary', 'file_changes', 'code_snippets', 'open_questions'],
+  additionalProperties: false,
+  properties: {
+    summary: { type: 'string' },
+    file_changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['path', 'change_type', 'description'],
+        additionalProperties: false,
+        properties: {
+          path: { type: 'string' },
+          change_type: { type: 'string', enum: CHANGE_TYPES },
+          description: { type: 'string' }
+        }
+      }
+    },
+    code_snippets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['language', 'code'],
+        additionalProperties: false,
+        properties: {
+          path: { type: 'string' },
+          language: { type: 'string' },
+          code: { type: 'string' },
+          description: { type: 'string' }
+        }
+      }
+    },
+    open_questions: { type: 'array', items: { type: 'string' } }
+  }
+} as const;
+
+// An implementation run as recorded on the ticket
+export interface ImplementationRecord extends ImplementationResult {
+  implementedAt: IsoTimestamp;
+}
+
+// Use the BMAD command format: "dev implement story X.Y"
+export function getStoryIdentifier(ticket: Ticket): string {
+  return ticket.id.split('.')[1] ? ticket.id : `${ticket.epicId}.${ticket.id.split('.')[0]}`;
+}
+
+// Record an implementation run on the ticket and hand it over to testing, unless the workflow holds it in place
+export function applyImplementation(
+  ticket: Ticket,
+  result: ImplementationResult,
+  stages: WorkflowStages,
+  options: { holdStatus?: boolean } = {}
+): Ticket {
+  const record: ImplementationRecord = { ...result, implementedAt: new Date().toISOString() };
+  return {
+    ...ticket,
+    status: options.holdStatus ? ticket.status : stages.testing,
+    implementations: [...(ticket.implementations ?? []), record]
+  };
+}
+
+export function requestImplementation(ticket: Ticket, signal?: AbortSignal, maxAttempts = 3): Promise<ImplementationResult> {
+  const latestReport = ticket.testReports?.[ticket.testReports.length - 1];
+  const openDefects = latestReport?.verdict === 'fail' ? latestReport.defects : [];
+
+  return requestStructured({
+    roleId: 'dev',
+    schema: implementationSchema,
+    jsonSchema: implementationJsonSchema,
+    purpose: 'story_implementation',
+    description: 'implementation record',
+    prompt: `${formatCommand('dev', 'implement story', getStoryIdentifier(ticket))}
+
+When done, respond with a single JSON object matching the provided schema and nothing else: a summary of what was implemented, every file added, modified or deleted, the key code snippets, and any open questions for the team.`,
+    context: {
+      ticket_id: ticket.id,
+      ticket_title: ticket.title,
+      ticket_description: ticket.description,
+      acceptance_criteria: ticket.acceptanceCriteria ?? [],
+      open_defects: openDefects,
+      current_status: ticket.status
+    },
+    maxAttempts,
+    signal
+  });
+}
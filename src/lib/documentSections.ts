@@ -0,0 +1,88 @@
+// Splitting the board's Markdown documentation into sections and finding the ones a ticket is about
+import type { Epic, Ticket } from '@/components/KanbanBoard';
+
+export interface DocSection {
+  // Slug of the title, unique within the document
+  id: string;
+  title: string;
+  level: number;
+  // The section's Markdown, heading included
+  content: string;
+}
+
+export type SectionRelevance = 'linked' | 'mentioned' | 'epic' | 'related';
+
+export interface SectionMatch {
+  section: DocSection;
+  relevance: SectionRelevance;
+}
+
+// Sections start at '#' and '##'; deeper headings stay inside their section
+const SECTION_HEADING = /^(#{1,2})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-') || 'section';
+
+export function splitSections(markdown: string): DocSection[] {
+  const sections: DocSection[] = [];
+  const used = new Map<string, number>();
+  let current: { title: string; level: number; lines: string[] } = { title: 'Introduction', level: 0, lines: [] };
+  let inFence = false;
+
+  const flush = () => {
+    const content = current.lines.join('\n').trim();
+    if (!content) return;
+    const slug = slugify(current.title);
+    const count = used.get(slug) ?? 0;
+    used.set(slug, count + 1);
+    sections.push({ id: count ? `${slug}-${count + 1}` : slug, title: current.title, level: current.level, content });
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(SECTION_HEADING);
+    if (heading) {
+      flush();
+      current = { title: heading[2], level: heading[1].length, lines: [line] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+const STOP_WORDS = new Set([
+  'that', 'this', 'with', 'from', 'into', 'have', 'will', 'should', 'their', 'there', 'when', 'where',
+  'which', 'user', 'users', 'able', 'about', 'story', 'stories', 'feature', 'features', 'system'
+]);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3 && !STOP_WORDS.has(word)));
+
+const overlap = (a: Set<string>, b: Set<string>) => [...a].filter(word => b.has(word)).length;
+
+// Explicit links first, then sections naming the ticket or epic, then ones sharing its vocabulary
+export function findRelevantSections(sections: DocSection[], ticket: Ticket, epic?: Epic | null): SectionMatch[] {
+  const linked = new Set(ticket.prdSections ?? []);
+  const epicWords = keywords(epic?.title ?? '');
+  const ticketWords = keywords(ticket.title);
+
+  return sections.flatMap((section): SectionMatch[] => {
+    if (linked.has(section.id)) return [{ section, relevance: 'linked' }];
+
+    const text = section.content.toLowerCase();
+    if (text.includes(ticket.id.toLowerCase()) || (epic && text.includes(epic.id.toLowerCase()))) {
+      return [{ section, relevance: 'mentioned' }];
+    }
+    if (epic && (text.includes(epic.title.toLowerCase()) || overlap(epicWords, keywords(section.title)) > 0)) {
+      return [{ section, relevance: 'epic' }];
+    }
+    if (overlap(ticketWords, keywords(section.content)) >= 2) {
+      return [{ section, relevance: 'related' }];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,104 @@
+// Version history of a board's documentation and line diffs between versions
+import type { Board, IsoTimestamp } from './boardRepository';
+
+export type VersionSource = 'edit' | 'agent' | 'chat' | 'restore';
+
+export interface DocVersion {
+  id: string;
+  content: string;
+  savedAt: IsoTimestamp;
+  source: VersionSource;
+  note?: string;
+}
+
+export const versionSourceLabels: Record<VersionSource, string> = {
+  edit: 'Manual edit',
+  agent: 'Generated by analyst',
+  chat: 'Added from chat',
+  restore: 'Restored'
+};
+
+// Oldest versions are dropped beyond this; the current documentation is always the latest version
+const MAX_VERSIONS = 50;
+
+// Boards documented before history was kept get their current documentation as the first version
+export function documentVersions(board: Board): DocVersion[] {
+  if (board.docVersions?.length) return board.docVersions;
+  if (!board.documentation) return [];
+  return [{ id: 'initial', content: board.documentation, savedAt: board.createdAt.toISOString(), source: 'agent' }];
+}
+
+// The board changes that save new documentation; identical content records nothing new
+export function saveDocumentation(
+  board: Board,
+  content: string,
+  source: VersionSource,
+  note?: string
+): Pick<Board, 'documentation' | 'docVersions'> {
+  const versions = documentVersions(board);
+  if (versions.length && versions[versions.length - 1].content === content) {
+    return { documentation: content, docVersions: versions };
+  }
+  const version: DocVersion = {
+    id: Date.now().toString(),
+    content,
+    savedAt: new Date().toISOString(),
+    source,
+    ...(note ? { note } : {})
+  };
+  return { documentation: content, docVersions: [...versions, version].slice(-MAX_VERSIONS) };
+}
+
+export type DiffKind = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+  kind: DiffKind;
+  // 1-based line numbers; a side is missing where the other version has a line it doesn't
+  left?: { number: number; text: string };
+  right?: { number: number; text: string };
+}
+
+// Side-by-side line diff from the longest common subsequence; adjacent removals and additions pair up as changes
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffRow['left'][] = [];
+  let added: DiffRow['right'][] = [];
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushChanges();
+      rows.push({ kind: 'same', left: { number: i + 1, text: a[i] }, right: { number: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push({ number: j + 1, text: b[j] });
+      j++;
+    } else {
+      removed.push({ number: i + 1, text: a[i] });
+      i++;
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
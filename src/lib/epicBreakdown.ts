@@ -0,0 +1,167 @@
+// Typed contract for the PM agent's epic + user story breakdown
+import { z } from 'zod';
+import { requestStructured } from './structuredResponse';
+import { roleDirectory } from './roles';
+import type { Role, Ticket } from '@/components/KanbanBoard';
+
+const STORY_POINTS = [1, 2, 3, 5, 8, 13] as const;
+const PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export const storyBreakdownSchema = z.object({
+  title: z.string().trim().min(1).max(150),
+  description: z.string().trim().min(1),
+  acceptance_criteria: z.array(z.string().trim().min(1)).min(1),
+  priority: z.enum(PRIORITIES),
+  story_points: z.coerce
+    .number()
+    .refine(points => (STORY_POINTS as readonly number[]).includes(points), {
+      message: `Story points must be one of ${STORY_POINTS.join(', ')}`
+    }),
+  // Any role id from /roles, not just the built-in four
+  suggested_assignee: z.string().trim().toLowerCase().min(1)
+});
+
+export const epicBreakdownSchema = z.object({
+  epic: z.object({
+    title: z.string().trim().min(1).max(100),
+    description: z.string().trim().min(1)
+  }),
+  stories: z.array(storyBreakdownSchema).min(1).max(10)
+});
+
+export type StoryBreakdown = z.infer<typeof storyBreakdownSchema>;
+export type EpicBreakdown = z.infer<typeof epicBreakdownSchema>;
+
+// Editable form of a breakdown, reviewed before anything is added to the board
+export interface DraftStory {
+  key: string;
+  title: string;
+  description: string;
+  acceptanceCriteria: string[];
+  storyPoints: number;
+  priority: Ticket['priority'];
+  assignee: Role;
+}
+
+export interface DraftEpic {
+  title: string;
+  description: string;
+  stories: DraftStory[];
+}
+
+let draftKeyCounter = 0;
+export const newDraftKey = () => `draft-${Date.now()}-${draftKeyCounter++}`;
+
+export function toDraftStory(story: StoryBreakdown): DraftStory {
+  return {
+    key: newDraftKey(),
+    title: story.title,
+    description: story.description,
+    acceptanceCriteria: story.acceptance_criteria,
+    storyPoints: story.story_points,
+    priority: story.priority,
+    assignee: story.suggested_assignee
+  };
+}
+
+export function toDraftEpic(breakdown: EpicBreakdown): DraftEpic {
+  return {
+    title: breakdown.epic.title,
+    description: breakdown.epic.description,
+    stories: breakdown.stories.map(toDraftStory)
+  };
+}
+
+export function fromDraftStory(story: DraftStory): StoryBreakdown {
+  return {
+    title: story.title,
+    description: story.description,
+    acceptance_criteria: story.acceptanceCriteria,
+    priority: story.priority,
+    story_points: story.storyPoints,
+    suggested_assignee: story.assignee
+  };
+}
+
+// Role ids the agent may suggest as assignees, e.g. "dev (Developer), qa (QA Engineer)"
+const describeAssignees = () =>
+  roleDirectory.getState().roles.map(role => `${role.id} (${role.label})`).join(', ');
+
+// JSON Schema sent to the backend so the agent can constrain its output to the contract above
+export const epicBreakdownJsonSchema = {
+  type: 'object',
+  required: ['epic', 'stories'],
+  additionalProperties: false,
+  properties: {
+    epic: {
+      type: 'object',
+      required: ['title', 'description'],
+      additionalProperties: false,
+      properties: {
+        title: { type: 'string', maxLength: 100 },
+        description: { type: 'string' }
+      }
+    },
+    stories: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 10,
+      items: {
+        type: 'object',
+        required: ['title', 'description', 'acceptance_criteria', 'priority', 'story_points', 'suggested_assignee'],
+        additionalProperties: false,
+        properties: {
+          title: { type: 'string', maxLength: 150 },
+          description: { type: 'string' },
+          acceptance_criteria: { type: 'array', minItems: 1, items: { type: 'string' } },
+          priority: { type: 'string', enum: PRIORITIES },
+          story_points: { type: 'integer', enum: STORY_POINTS },
+          suggested_assignee: { type: 'string', minLength: 1 }
+        }
+      }
+    }
+  }
+} as const;
+
+export function requestEpicBreakdown(conversation: string, signal?: AbortSignal, maxAttempts = 3): Promise<EpicBreakdown> {
+  return requestStructured({
+    roleId: 'pm',
+    schema: epicBreakdownSchema,
+    jsonSchema: epicBreakdownJsonSchema,
+    purpose: 'epic_breakdown',
+    description: 'story breakdown',
+    prompt: `Based on our conversation, define one epic and break it down into 2-5 independent user stories.
+
+Respond with a single JSON object matching the provided schema and nothing else. Each story needs a concise title (max 15 words), a 2-3 sentence description, testable acceptance criteria, a priority, story points (1, 2, 3, 5, 8 or 13) and the id of the role best suited to implement it, one of: ${describeAssignees()}.
+
+Conversation: ${conversation}`,
+    maxAttempts,
+    signal
+  });
+}
+
+// Replace a single story of an epic, e.g. when the reviewer rejects the first attempt
+export function requestStoryRegeneration(
+  epic: EpicBreakdown['epic'],
+  story: StoryBreakdown,
+  conversation: string,
+  signal?: AbortSignal,
+  maxAttempts = 3
+): Promise<StoryBreakdown> {
+  return requestStructured({
+    roleId: 'pm',
+    schema: storyBreakdownSchema,
+    jsonSchema: epicBreakdownJsonSchema.properties.stories.items,
+    purpose: 'story_regeneration',
+    description: 'user story',
+    prompt: `Rewrite the following user story for the epic "${epic.title}" (${epic.description}). Keep its intent but make it clearer, independently deliverable and testable.
+
+Respond with a single JSON object for one story matching the provided schema and nothing else. Its suggested_assignee must be one of: ${describeAssignees()}.
+
+Current story: ${JSON.stringify(story)}
+
+Conversation: ${conversation}`,
+    maxAttempts,
+    signal
+  });
+}
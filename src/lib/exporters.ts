@@ -0,0 +1,217 @@
+// Client-side exports: documentation as Markdown, HTML or a printable page, and a Markdown report of the whole board
+import { createElement } from 'react';
+import Markdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Board } from './boardRepository';
+import type { Epic, Ticket } from '@/components/KanbanBoard';
+import { compareRank } from './ranking';
+import { getRoleLabel } from './roles';
+import { getStoryIdentifier } from './devImplementation';
+import { findColumn, type WorkflowColumn } from './workflow';
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'board';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Table cells can't hold pipes or line breaks
+const cell = (text: string | number | undefined) =>
+  String(text ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleString();
+
+// Story numbers need an epic; stories without one keep their plain id
+const storyLabel = (ticket: Ticket) => ticket.epicId ? getStoryIdentifier(ticket) : ticket.id;
+
+export function exportFileName(board: Board, kind: 'documentation' | 'board-report', extension: string): string {
+  return `${slugify(board.name)}-${kind}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function documentationToMarkdown(board: Board): string {
+  return `${(board.documentation ?? '').trim()}\n`;
+}
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #1f2937; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1, h2, h3 { line-height: 1.25; page-break-after: avoid; }
+  h1 { border-bottom: 2px solid #e5e7eb; padding-bottom: 0.3em; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 0.2em; margin-top: 2em; }
+  pre { background: #f3f4f6; padding: 1em; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4em 0.6em; text-align: left; }
+  th { background: #f9fafb; }
+  blockquote { border-left: 4px solid #d1d5db; margin: 0; padding-left: 1em; color: #4b5563; }
+  .meta { color: #6b7280; font-size: 0.9em; }
+  pre, table, blockquote { page-break-inside: avoid; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+// A standalone page; raw HTML in the Markdown is dropped, as in the app's renderer.
+// The server renderer is only fetched when an export runs, keeping it out of the main bundle
+export async function documentationToHtml(board: Board): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(createElement(Markdown, { remarkPlugins: [remarkGfm] }, board.documentation ?? ''));
+  const title = escapeHtml(board.name);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title} · Documentation</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<p class="meta">${title} · exported ${escapeHtml(formatDate(new Date()))}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+// Opens the browser's print dialog on the HTML export, where it can be saved as a PDF
+export async function printDocumentation(board: Board) {
+  const html = await documentationToHtml(board);
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
+
+function ticketReport(ticket: Ticket, epic: Epic | undefined, columns: WorkflowColumn[]): string {
+  const lines = [
+    `### ${storyLabel(ticket)}: ${ticket.title}`,
+    '',
+    `- **Status:** ${findColumn(columns, ticket.status)?.label ?? ticket.status}`,
+    `- **Epic:** ${epic?.title ?? 'None'}`,
+    `- **Priority:** ${ticket.priority}`,
+    `- **Story points:** ${ticket.storyPoints ?? 'Not estimated'}`,
+    `- **Assignee:** ${getRoleLabel(ticket.assignee)}`,
+    ''
+  ];
+  if (ticket.description.trim()) lines.push(ticket.description.trim(), '');
+
+  if (ticket.acceptanceCriteria?.length) {
+    lines.push('#### Acceptance criteria', '', ...ticket.acceptanceCriteria.map(criterion => `- ${criterion}`), '');
+  }
+
+  for (const record of ticket.implementations ?? []) {
+    lines.push(`#### Implementation, ${formatDate(record.implementedAt)}`, '', record.summary, '');
+    if (record.file_changes.length) {
+      lines.push(...record.file_changes.map(change =>
+        `- ${change.change_type} \`${change.path}\`${change.description ? `: ${change.description}` : ''}`
+      ), '');
+    }
+    if (record.code_snippets.length) {
+      lines.push(`_${record.code_snippets.length} code ${record.code_snippets.length === 1 ? 'snippet' : 'snippets'} not included._`, '');
+    }
+    if (record.open_questions.length) {
+      lines.push('Open questions:', '', ...record.open_questions.map(question => `- ${question}`), '');
+    }
+  }
+
+  for (const report of ticket.testReports ?? []) {
+    lines.push(`#### QA report: ${report.verdict.toUpperCase()}, ${formatDate(report.testedAt)}`, '', report.summary, '');
+    if (report.findings.length) {
+      lines.push(
+        '| Criterion | Result | Notes |',
+        '| --- | --- | --- |',
+        ...report.findings.map(finding => `| ${cell(finding.criterion)} | ${finding.result} | ${cell(finding.notes)} |`),
+        ''
+      );
+    }
+    for (const defect of report.defects) {
+      lines.push(`- **${defect.severity}** ${defect.title}: ${defect.description}`);
+      if (defect.steps_to_reproduce) lines.push(`  Steps to reproduce: ${defect.steps_to_reproduce.replace(/\n/g, ' ')}`);
+    }
+    if (report.defects.length) lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+// Tickets are listed by column, then by their position within it
+export function boardToMarkdown(board: Board, epics: Epic[], tickets: Ticket[], columns: WorkflowColumn[]): string {
+  const columnOrder = new Map(columns.map((column, index) => [column.id, index]));
+  const sorted = [...tickets].sort((a, b) =>
+    (columnOrder.get(a.status) ?? columns.length) - (columnOrder.get(b.status) ?? columns.length) || compareRank(a, b)
+  );
+  const epicById = new Map(epics.map(epic => [epic.id, epic]));
+  const points = (list: Ticket[]) => list.reduce((sum, ticket) => sum + (ticket.storyPoints ?? 0), 0);
+  const storyRow = (ticket: Ticket) =>
+    `| ${storyLabel(ticket)} | ${cell(ticket.title)} | ${cell(findColumn(columns, ticket.status)?.label ?? ticket.status)} | ${ticket.priority} | ${ticket.storyPoints ?? ''} | ${cell(getRoleLabel(ticket.assignee))} |`;
+  const storyTable = (list: Ticket[]) => [
+    '| Story | Title | Status | Priority | Points | Assignee |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...list.map(storyRow)
+  ];
+
+  const lines = [
+    `# ${board.name}: Board Report`,
+    '',
+    `_Exported ${formatDate(new Date())}_`,
+    ''
+  ];
+  if (board.description.trim()) lines.push(board.description.trim(), '');
+  lines.push(
+    `- **Status:** ${board.status}`,
+    `- **Epics:** ${epics.length}`,
+    `- **Tickets:** ${tickets.length}`,
+    `- **Story points:** ${points(tickets)}`,
+    '',
+    '## Summary by column',
+    '',
+    '| Column | Tickets | Story points |',
+    '| --- | --- | --- |',
+    ...columns.map(column => {
+      const inColumn = tickets.filter(ticket => ticket.status === column.id);
+      return `| ${cell(column.label)} | ${inColumn.length} | ${points(inColumn)} |`;
+    }),
+    ''
+  );
+
+  const groups = [
+    ...epics.map(epic => ({ title: epic.title, description: epic.description, tickets: sorted.filter(ticket => ticket.epicId === epic.id) })),
+    { title: 'Stories without an epic', description: '', tickets: sorted.filter(ticket => !ticket.epicId || !epicById.has(ticket.epicId)) }
+  ].filter(group => group.tickets.length || group.description);
+
+  if (groups.length) {
+    lines.push('## Epics', '');
+    for (const group of groups) {
+      lines.push(`### ${group.title}`, '');
+      if (group.description.trim()) lines.push(group.description.trim(), '');
+      lines.push(...(group.tickets.length ? storyTable(group.tickets) : ['_No stories yet._']), '');
+    }
+  }
+
+  if (sorted.length) {
+    lines.push('## Stories', '');
+    for (const ticket of sorted) {
+      lines.push(ticketReport(ticket, ticket.epicId ? epicById.get(ticket.epicId) : undefined, columns), '');
+    }
+  }
+
+  return `${lines.join('\n').trim()}\n`;
+}
@@ -0,0 +1,78 @@
+// Turning a chat message into board content: a new ticket, acceptance criteria, or a documentation section
+import type { ChatMessage } from './chatHistory';
+
+export type MessageActionKind = 'ticket' | 'criteria' | 'docs';
+
+export interface MessageAction {
+  kind: MessageActionKind;
+  threadId: string;
+  message: ChatMessage;
+}
+
+// Where a ticket came from; kept on the ticket so it can point back at the conversation
+export interface MessageSource {
+  threadId: string;
+  messageId: string;
+}
+
+export interface TicketDraft {
+  title: string;
+  description: string;
+  acceptanceCriteria: string[];
+}
+
+const TITLE_LENGTH = 80;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/;
+const HEADING = /^\s*#{1,6}\s+(.+)$/;
+
+// Drops the Markdown that would look odd in a plain-text field
+const toPlainText = (text: string) =>
+  text
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .trim();
+
+// List items under an "Acceptance criteria" heading, or every list item when there is no such heading
+export function extractCriteria(content: string): string[] {
+  const lines = content.split('\n');
+  const items: string[] = [];
+  const sectionItems: string[] = [];
+  let inSection = false;
+
+  for (const line of lines) {
+    const heading = line.match(HEADING) ?? line.match(/^\s*\*\*(.+?):?\*\*:?\s*$/);
+    if (heading) {
+      inSection = /acceptance criteria/i.test(heading[1]);
+      continue;
+    }
+    const item = line.match(LIST_ITEM);
+    if (!item) continue;
+    const text = toPlainText(item[1]);
+    if (!text) continue;
+    items.push(text);
+    if (inSection) sectionItems.push(text);
+  }
+
+  return sectionItems.length > 0 ? sectionItems : items;
+}
+
+// Title from the first heading or line, the message as description, and any criteria it lists
+export function draftTicketFromMessage(content: string): TicketDraft {
+  const firstLine = content.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+  const title = toPlainText(firstLine.replace(/^#{1,6}\s+/, '').replace(LIST_ITEM, '$1'));
+  return {
+    title: title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title,
+    description: content.trim(),
+    acceptanceCriteria: extractCriteria(content)
+  };
+}
+
+// A section to append to the board's documentation, labelled with who said it and when
+export function toDocumentationSection(message: ChatMessage, author: string): string {
+  return `## Chat notes: ${author}, ${message.timestamp.toLocaleDateString()}\n\n${message.content.trim()}\n`;
+}
+
+export function appendToDocumentation(documentation: string | undefined, section: string): string {
+  return documentation?.trim() ? `${documentation.trimEnd()}\n\n${section}` : section;
+}
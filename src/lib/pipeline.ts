@@ -0,0 +1,38 @@
+// Configuration and queueing for the autonomous backlog-to-done pipeline
+import type { Ticket } from '@/components/KanbanBoard';
+import { compareRank } from './ranking';
+
+// Points where the pipeline stops and waits for a human to approve the next step
+export type PipelineGate = 'before-implementation' | 'before-testing' | 'before-done';
+
+export interface PipelineConfig {
+  // How many times a story may go back to the dev agent after failing QA
+  maxQaRetries: number;
+  gates: PipelineGate[];
+}
+
+export const defaultPipelineConfig: PipelineConfig = {
+  maxQaRetries: 2,
+  gates: ['before-done']
+};
+
+export const pipelineGateLabels: Record<PipelineGate, string> = {
+  'before-implementation': 'Before implementation',
+  'before-testing': 'Before testing',
+  'before-done': 'Before marking done'
+};
+
+const priorityRank: Record<Ticket['priority'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+// Backlog tickets, highest priority first; ties follow the order the PM gave them in the column
+export function selectPipelineQueue(tickets: Ticket[], backlogStatus: string): string[] {
+  return tickets
+    .filter(ticket => ticket.status === backlogStatus)
+    .sort((a, b) => priorityRank[a.priority] - priorityRank[b.priority] || compareRank(a, b))
+    .map(ticket => ticket.id);
+}
@@ -0,0 +1,122 @@
+// Typed contract for the QA agent's test verdict on a story
+import { z } from 'zod';
+import { requestStructured } from './structuredResponse';
+import type { Ticket } from '@/components/KanbanBoard';
+import type { WorkflowStages } from './workflow';
+import type { IsoTimestamp } from './boardRepository';
+
+const VERDICTS = ['pass', 'fail', 'blocked'] as const;
+const CRITERION_RESULTS = ['pass', 'fail', 'blocked', 'not_tested'] as const;
+const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export const qaVerdictSchema = z.object({
+  verdict: z.enum(VERDICTS),
+  summary: z.string().trim().min(1),
+  findings: z.array(z.object({
+    criterion: z.string().trim().min(1),
+    result: z.enum(CRITERION_RESULTS),
+    notes: z.string().trim().default('')
+  })),
+  defects: z.array(z.object({
+    title: z.string().trim().min(1),
+    description: z.string().trim().min(1),
+    severity: z.enum(SEVERITIES),
+    steps_to_reproduce: z.string().trim().optional()
+  })).default([])
+}).refine(verdict => verdict.verdict !== 'fail' || verdict.defects.length > 0, {
+  message: 'A failing verdict must list at least one defect',
+  path: ['defects']
+});
+
+export type QaVerdict = z.infer<typeof qaVerdictSchema>;
+
+const qaVerdictJsonSchema = {
+  type: 'object',
+  required: ['verdict', 'summary', 'findings', 'defects'],
+  additionalProperties: false,
+  properties: {
+    verdict: { type: 'string', enum: VERDICTS },
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['criterion', 'result', 'notes'],
+        additionalProperties: false,
+        properties: {
+          criterion: { type: 'string' },
+          result: { type: 'string', enum: CRITERION_RESULTS },
+          notes: { type: 'string' }
+        }
+      }
+    },
+    defects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'description', 'severity'],
+        additionalProperties: false,
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          severity: { type: 'string', enum: SEVERITIES },
+          steps_to_reproduce: { type: 'string' }
+        }
+      }
+    }
+  }
+} as const;
+
+// A QA run as recorded on the ticket
+export interface TestReport extends QaVerdict {
+  testedAt: IsoTimestamp;
+}
+
+// Record a verdict on the ticket: passing stories are accepted, failed ones go back to development
+// with the defects attached, and blocked ones wait in testing
+export function applyTestReport(
+  ticket: Ticket,
+  verdict: QaVerdict,
+  stages: WorkflowStages,
+  options: { holdStatus?: boolean } = {}
+): Ticket {
+  const report: TestReport = { ...verdict, testedAt: new Date().toISOString() };
+  const status =
+    options.holdStatus ? ticket.status :
+    verdict.verdict === 'pass' ? stages.accepted :
+    verdict.verdict === 'fail' ? stages.development :
+    ticket.status;
+
+  return { ...ticket, status, testReports: [...(ticket.testReports ?? []), report] };
+}
+
+export function requestQaVerdict(ticket: Ticket, signal?: AbortSignal, maxAttempts = 3): Promise<QaVerdict> {
+  const criteria = ticket.acceptanceCriteria?.length
+    ? ticket.acceptanceCriteria.map((criterion, index) => `${index + 1}. ${criterion}`).join('\n')
+    : 'No explicit acceptance criteria; judge against the description.';
+
+  return requestStructured({
+    roleId: 'qa',
+    schema: qaVerdictSchema,
+    jsonSchema: qaVerdictJsonSchema,
+    purpose: 'story_testing',
+    description: 'QA verdict',
+    prompt: `Please test story ${ticket.id}: ${ticket.title}.
+
+Description: ${ticket.description}
+
+Acceptance criteria:
+${criteria}
+
+Evaluate every acceptance criterion and respond with a single JSON object matching the provided schema and nothing else. Use "pass" only if every criterion passes, "fail" if any criterion fails (list each defect), and "blocked" if the story cannot be tested.`,
+    context: {
+      ticket_id: ticket.id,
+      ticket_title: ticket.title,
+      ticket_description: ticket.description,
+      acceptance_criteria: ticket.acceptanceCriteria ?? [],
+      current_status: ticket.status
+    },
+    maxAttempts,
+    signal
+  });
+}
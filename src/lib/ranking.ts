@@ -0,0 +1,49 @@
+// Lexicographic ticket ranks: a new rank always fits between two neighbours, so a move rewrites one ticket
+import type { Ticket } from '@/components/KanbanBoard';
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// A rank that sorts strictly between `before` and `after`; either end may be open
+export function rankBetween(before?: string, after?: string): string {
+  const lower = before ?? '';
+  let upper = after;
+  let rank = '';
+
+  for (let i = 0; ; i++) {
+    const lo = i < lower.length ? DIGITS.indexOf(lower[i]) : 0;
+    const hi = upper !== undefined && i < upper.length ? DIGITS.indexOf(upper[i]) : DIGITS.length;
+
+    if (lo === hi) {
+      rank += DIGITS[lo];
+      continue;
+    }
+
+    const mid = Math.floor((lo + hi) / 2);
+    if (mid > lo) return rank + DIGITS[mid];
+
+    // The digits are adjacent: keep the lower one and look for room in the next position
+    rank += DIGITS[lo];
+    upper = undefined;
+  }
+}
+
+export function compareRank(a: Ticket, b: Ticket): number {
+  const rankA = a.rank ?? '';
+  const rankB = b.rank ?? '';
+  return rankA < rankB ? -1 : rankA > rankB ? 1 : 0;
+}
+
+// Give unranked tickets (older boards, newly created stories) ranks after everything else, in list order
+export function assignMissingRanks(tickets: Ticket[]): Ticket[] {
+  if (tickets.every(ticket => ticket.rank)) return tickets;
+
+  let last = tickets.reduce<string | undefined>(
+    (max, ticket) => ticket.rank && (!max || ticket.rank > max) ? ticket.rank : max,
+    undefined
+  );
+  return tickets.map(ticket => {
+    if (ticket.rank) return ticket;
+    last = rankBetween(last);
+    return { ...ticket, rank: last };
+  });
+}
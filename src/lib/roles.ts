@@ -0,0 +1,217 @@
+// Agent roles served by the backend's /roles, styled locally so new server roles show up without a release
+import {
+  Bot,
+  Building2,
+  Code,
+  FileText,
+  Lightbulb,
+  Palette,
+  TestTube,
+  Users,
+  type LucideIcon
+} from 'lucide-react';
+import { apiService, type RoleInfo } from './api';
+import { onApiBaseUrlChange } from './apiConfig';
+import type { Role } from '@/components/KanbanBoard';
+
+export interface RoleStyle {
+  color: string;
+  gradient: string;
+  icon: LucideIcon;
+}
+
+export interface RoleProfile extends RoleStyle {
+  id: Role;
+  label: string;
+  description: string;
+  commands: string[];
+  capabilities: string[];
+  // Quick actions offered in the chat panel
+  suggestions: string[];
+}
+
+export type RoleSource = 'loading' | 'backend' | 'fallback';
+
+export interface RoleDirectoryState {
+  roles: RoleProfile[];
+  // 'fallback' while the backend's roles could not be loaded
+  source: RoleSource;
+}
+
+const MAX_SUGGESTIONS = 4;
+
+// The four agents the board shipped with, used until /roles answers
+const builtInRoles: Omit<RoleProfile, 'color' | 'gradient' | 'icon'>[] = [
+  {
+    id: 'analyst',
+    label: 'Business Analyst',
+    description: 'Business Analysis & Documentation',
+    commands: [],
+    capabilities: [],
+    suggestions: [
+      'Generate project documentation',
+      'Create user stories from requirements',
+      'Analyze business impact',
+      'Define acceptance criteria'
+    ]
+  },
+  {
+    id: 'pm',
+    label: 'Product Manager',
+    description: 'Product Management & Planning',
+    commands: [],
+    capabilities: [],
+    suggestions: [
+      'Create epics from documentation',
+      'Prioritize user stories',
+      'Plan sprint backlog',
+      'Generate product roadmap'
+    ]
+  },
+  {
+    id: 'dev',
+    label: 'Developer',
+    description: 'Code Implementation & Review',
+    commands: [],
+    capabilities: [],
+    suggestions: [
+      'Implement story EPIC-1.1',
+      'Review code changes',
+      'Suggest architectural improvements',
+      'Generate unit tests'
+    ]
+  },
+  {
+    id: 'qa',
+    label: 'QA Engineer',
+    description: 'Quality Assurance & Testing',
+    commands: [],
+    capabilities: [],
+    suggestions: [
+      'Create test cases for story',
+      'Review test coverage',
+      'Report bugs and issues',
+      'Verify acceptance criteria'
+    ]
+  }
+];
+
+const knownStyles: Record<string, RoleStyle> = {
+  analyst: { color: 'bg-role-analyst', gradient: 'bg-gradient-role-analyst', icon: FileText },
+  pm: { color: 'bg-role-pm', gradient: 'bg-gradient-role-pm', icon: Lightbulb },
+  dev: { color: 'bg-role-dev', gradient: 'bg-gradient-role-dev', icon: Code },
+  qa: { color: 'bg-role-qa', gradient: 'bg-gradient-role-qa', icon: TestTube },
+  architect: { color: 'bg-indigo-500', gradient: 'bg-gradient-to-br from-indigo-500 to-indigo-300', icon: Building2 },
+  ux: { color: 'bg-pink-500', gradient: 'bg-gradient-to-br from-pink-500 to-pink-300', icon: Palette },
+  sm: { color: 'bg-amber-500', gradient: 'bg-gradient-to-br from-amber-500 to-amber-300', icon: Users }
+};
+
+// Roles we have no style for get a stable colour picked from their id
+const fallbackStyles: RoleStyle[] = [
+  { color: 'bg-teal-500', gradient: 'bg-gradient-to-br from-teal-500 to-teal-300', icon: Bot },
+  { color: 'bg-violet-500', gradient: 'bg-gradient-to-br from-violet-500 to-violet-300', icon: Bot },
+  { color: 'bg-rose-500', gradient: 'bg-gradient-to-br from-rose-500 to-rose-300', icon: Bot },
+  { color: 'bg-sky-500', gradient: 'bg-gradient-to-br from-sky-500 to-sky-300', icon: Bot },
+  { color: 'bg-slate-500', gradient: 'bg-gradient-to-br from-slate-500 to-slate-300', icon: Bot }
+];
+
+export function getRoleStyle(roleId: Role): RoleStyle {
+  if (knownStyles[roleId]) return knownStyles[roleId];
+  const hash = [...roleId].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+  return fallbackStyles[hash % fallbackStyles.length];
+}
+
+// 'data-engineer' -> 'Data Engineer'
+const labelFromId = (roleId: string) =>
+  roleId.split(/[-_\s]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ') || roleId;
+
+function toRoleProfile(info: RoleInfo): RoleProfile {
+  const builtIn = builtInRoles.find(role => role.id === info.id);
+  const commands = Array.isArray(info.commands) ? info.commands : [];
+  return {
+    id: info.id,
+    label: builtIn?.label ?? (info.name?.trim() || labelFromId(info.id)),
+    description: info.description?.trim() || builtIn?.description || '',
+    commands,
+    capabilities: Array.isArray(info.capabilities) ? info.capabilities : [],
+    suggestions: (commands.length > 0 ? commands : builtIn?.suggestions ?? []).slice(0, MAX_SUGGESTIONS),
+    ...getRoleStyle(info.id)
+  };
+}
+
+const fallbackProfiles: RoleProfile[] = builtInRoles.map(role => ({ ...role, ...getRoleStyle(role.id) }));
+
+// Profile for any role id, including ones the backend no longer lists
+export function findRole(roles: RoleProfile[], roleId: Role): RoleProfile {
+  const known = roles.find(role => role.id === roleId) ?? fallbackProfiles.find(role => role.id === roleId);
+  if (known) return known;
+  return {
+    id: roleId,
+    label: labelFromId(roleId),
+    description: '',
+    commands: [],
+    capabilities: [],
+    suggestions: [],
+    ...getRoleStyle(roleId)
+  };
+}
+
+type Listener = () => void;
+
+class RoleDirectory {
+  private state: RoleDirectoryState = { roles: fallbackProfiles, source: 'loading' };
+  private listeners = new Set<Listener>();
+  private inFlight: AbortController | null = null;
+  private loaded = false;
+
+  constructor() {
+    onApiBaseUrlChange(() => {
+      this.loaded = false;
+      if (this.listeners.size > 0) this.refresh();
+    });
+  }
+
+  getState = (): RoleDirectoryState => this.state;
+
+  // Loads once per backend; a failed load is retried by the next subscriber
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    if (!this.loaded && !this.inFlight) this.refresh();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  refresh = async (): Promise<void> => {
+    this.inFlight?.abort();
+    const controller = new AbortController();
+    this.inFlight = controller;
+
+    try {
+      const roles = await apiService.getRoles({ signal: controller.signal });
+      if (this.inFlight !== controller) return;
+      const profiles = (Array.isArray(roles) ? roles : []).filter(role => role?.id).map(toRoleProfile);
+      this.loaded = profiles.length > 0;
+      this.setState(profiles.length > 0
+        ? { roles: profiles, source: 'backend' }
+        : { roles: fallbackProfiles, source: 'fallback' });
+    } catch (error) {
+      if (this.inFlight !== controller) return;
+      console.warn('Falling back to built-in roles:', error);
+      this.setState({ roles: fallbackProfiles, source: 'fallback' });
+    } finally {
+      if (this.inFlight === controller) this.inFlight = null;
+    }
+  };
+
+  getRole = (roleId: Role): RoleProfile => findRole(this.state.roles, roleId);
+
+  private setState(state: RoleDirectoryState) {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const roleDirectory = new RoleDirectory();
+
+export const getRoleLabel = (roleId: Role): string => roleDirectory.getRole(roleId).label;
@@ -0,0 +1,101 @@
+// Schema-validated JSON responses from agents, with a repair round-trip when validation fails
+import { z } from 'zod';
+import { apiService } from './api';
+
+export class StructuredResponseError extends Error {
+  constructor(message: string, public readonly issues: string[], public readonly rawResponse: string) {
+    super(message);
+    this.name = 'StructuredResponseError';
+  }
+}
+
+interface StructuredRequest<T> {
+  roleId: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // JSON Schema sent to the backend so the agent can constrain its output to `schema`
+  jsonSchema: object;
+  purpose: string;
+  // What is being requested, for the final error message ("story breakdown", "QA verdict")
+  description: string;
+  prompt: string;
+  context?: Record<string, unknown>;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+}
+
+// Agents often wrap JSON in prose or a ```json fence; take the outermost object
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : candidate;
+}
+
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, text: string): { data?: T; issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { data: result.data, issues: [] };
+  }
+  return {
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  };
+}
+
+// Ask an agent for JSON matching a schema, sending validation errors back for repair before giving up
+export async function requestStructured<T>({
+  roleId,
+  schema,
+  jsonSchema,
+  purpose,
+  description,
+  prompt,
+  context = {},
+  maxAttempts = 3,
+  signal
+}: StructuredRequest<T>): Promise<T> {
+  const responseFormat = { type: 'json_schema', schema: jsonSchema };
+
+  let message = prompt;
+  let lastResponse = '';
+  let lastIssues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await apiService.chatWithRole(roleId, {
+      message,
+      context: {
+        ...context,
+        purpose: attempt === 1 ? purpose : `${purpose}_repair`,
+        response_format: responseFormat
+      }
+    }, { signal });
+
+    lastResponse = response.response;
+    const { data, issues } = validate(schema, lastResponse);
+    if (data) return data;
+
+    lastIssues = issues;
+    message = `Your previous response did not match the required JSON schema.
+
+Problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${lastResponse}
+
+Return the corrected JSON object only.`;
+  }
+
+  throw new StructuredResponseError(
+    `The agent did not return a valid ${description} after ${maxAttempts} attempts.`,
+    lastIssues,
+    lastResponse
+  );
+}
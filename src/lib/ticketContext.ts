@@ -0,0 +1,51 @@
+// What an agent is told about a ticket when the team discusses it
+import type { Epic, Ticket } from '@/components/KanbanBoard';
+
+// Only the latest agent runs; older ones add length without changing the picture
+const RECENT_RUNS = 2;
+
+export function buildTicketContext(ticket: Ticket, epic?: Epic | null): Record<string, unknown> {
+  return {
+    ticket_id: ticket.id,
+    ticket_title: ticket.title,
+    ticket_description: ticket.description,
+    acceptance_criteria: ticket.acceptanceCriteria ?? [],
+    current_status: ticket.status,
+    priority: ticket.priority,
+    story_points: ticket.storyPoints,
+    assignee: ticket.assignee,
+    epic: epic ? { id: epic.id, title: epic.title, description: epic.description } : undefined,
+    implementations: (ticket.implementations ?? []).slice(-RECENT_RUNS).map(record => ({
+      summary: record.summary,
+      file_changes: record.file_changes,
+      open_questions: record.open_questions,
+      implemented_at: record.implementedAt
+    })),
+    test_reports: (ticket.testReports ?? []).slice(-RECENT_RUNS).map(report => ({
+      verdict: report.verdict,
+      summary: report.summary,
+      defects: report.defects,
+      tested_at: report.testedAt
+    }))
+  };
+}
+
+// Tickets and epics mentioned in a chat message with #id or @id
+export function buildMentionContext(tickets: Ticket[], epics: Epic[]): Record<string, unknown> {
+  return {
+    mentioned_tickets: tickets.length > 0
+      ? tickets.map(ticket => ({
+          id: ticket.id,
+          title: ticket.title,
+          description: ticket.description,
+          acceptance_criteria: ticket.acceptanceCriteria ?? [],
+          current_status: ticket.status,
+          assignee: ticket.assignee,
+          epic_id: ticket.epicId
+        }))
+      : undefined,
+    mentioned_epics: epics.length > 0
+      ? epics.map(epic => ({ id: epic.id, title: epic.title, description: epic.description }))
+      : undefined
+  };
+}
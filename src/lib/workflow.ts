@@ -0,0 +1,149 @@
+// Per-board workflow columns and the stages agents move tickets through
+import {
+  AlertCircle,
+  Ban,
+  CheckCircle,
+  Clock,
+  Code,
+  Eye,
+  Flag,
+  GitBranch,
+  Inbox,
+  Play,
+  Rocket,
+  TestTube,
+  type LucideIcon
+} from 'lucide-react';
+import { getRoleLabel } from './roles';
+import type { Role, Ticket } from '@/components/KanbanBoard';
+
+export const columnIcons = {
+  clock: Clock,
+  play: Play,
+  'alert-circle': AlertCircle,
+  'check-circle': CheckCircle,
+  eye: Eye,
+  ban: Ban,
+  rocket: Rocket,
+  code: Code,
+  'test-tube': TestTube,
+  'git-branch': GitBranch,
+  flag: Flag,
+  inbox: Inbox
+} satisfies Record<string, LucideIcon>;
+
+export type ColumnIcon = keyof typeof columnIcons;
+
+export interface WorkflowColumn {
+  id: string;
+  label: string;
+  icon: ColumnIcon;
+  // Agent role that works tickets in this column, if any
+  ownerRole?: Role;
+  wipLimit?: number;
+  // Reject moves that would push the column over its WIP limit instead of only warning
+  enforceWipLimit?: boolean;
+}
+
+// An allowed move between two columns; an empty roles list lets anyone make it
+export interface TransitionRule {
+  from: string;
+  to: string;
+  roles: Role[];
+}
+
+export interface WorkflowPolicy {
+  columns: WorkflowColumn[];
+  // With no rules every move is allowed; once any exist, only the listed moves are
+  transitions: TransitionRule[];
+}
+
+export interface MoveCheck {
+  allowed: boolean;
+  // Why the move was rejected
+  reason?: string;
+  // Set when the move is allowed but breaks a soft WIP limit
+  warning?: string;
+}
+
+// The original four-column flow; its ids match tickets created before columns were configurable
+export const defaultColumns: WorkflowColumn[] = [
+  { id: 'backlog', label: 'Backlog', icon: 'clock' },
+  { id: 'in-progress', label: 'In Progress', icon: 'play', ownerRole: 'dev' },
+  { id: 'ready-for-testing', label: 'Ready for Testing', icon: 'alert-circle', ownerRole: 'qa' },
+  { id: 'done', label: 'Done', icon: 'check-circle' }
+];
+
+// Boards start unrestricted: any role may move a ticket between any two columns
+export const defaultTransitions: TransitionRule[] = [];
+
+// Column ids that agents and the pipeline move tickets between
+export interface WorkflowStages {
+  backlog: string;
+  development: string;
+  testing: string;
+  // Where a story goes once it passes QA
+  accepted: string;
+}
+
+export function resolveWorkflowStages(columns: WorkflowColumn[]): WorkflowStages {
+  const first = columns[0]?.id ?? 'backlog';
+  const last = columns[columns.length - 1]?.id ?? first;
+
+  const development = columns.find(column => column.ownerRole === 'dev')?.id ?? columns[1]?.id ?? first;
+  const testingIndex = columns.findIndex(column => column.ownerRole === 'qa');
+  const testing = testingIndex !== -1 ? columns[testingIndex].id : columns[columns.length - 2]?.id ?? last;
+  const accepted = testingIndex !== -1 ? columns[testingIndex + 1]?.id ?? last : last;
+
+  return { backlog: first, development, testing, accepted };
+}
+
+export function findColumn(columns: WorkflowColumn[], columnId: string): WorkflowColumn | undefined {
+  return columns.find(column => column.id === columnId);
+}
+
+// Slug of the label, suffixed when another column already uses it
+export function createColumnId(label: string, columns: WorkflowColumn[]): string {
+  const base = label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'column';
+  let id = base;
+  let suffix = 2;
+  while (columns.some(column => column.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
+
+// Whether `role` may move the ticket into column `to`, given the transition rules and WIP limits
+export function checkMove(policy: WorkflowPolicy, tickets: Ticket[], ticket: Ticket, to: string, role: Role): MoveCheck {
+  if (ticket.status === to) return { allowed: true };
+
+  const columnLabel = (columnId: string) => findColumn(policy.columns, columnId)?.label ?? columnId;
+  const from = columnLabel(ticket.status);
+  const target = findColumn(policy.columns, to);
+  if (!target) {
+    return { allowed: false, reason: `There is no "${to}" column on this board` };
+  }
+
+  if (policy.transitions.length > 0) {
+    const rule = policy.transitions.find(r => r.from === ticket.status && r.to === to);
+    if (!rule) {
+      return { allowed: false, reason: `Tickets can't move from ${from} to ${target.label}` };
+    }
+    if (rule.roles.length > 0 && !rule.roles.includes(role)) {
+      const allowedRoles = rule.roles.map(getRoleLabel).join(' or ');
+      return { allowed: false, reason: `Only the ${allowedRoles} can move tickets from ${from} to ${target.label}` };
+    }
+  }
+
+  if (target.wipLimit) {
+    const count = tickets.filter(t => t.status === to && t.id !== ticket.id).length;
+    if (count >= target.wipLimit) {
+      if (target.enforceWipLimit) {
+        return { allowed: false, reason: `${target.label} is at its WIP limit of ${target.wipLimit}` };
+      }
+      return { allowed: true, warning: `${target.label} is now over its WIP limit (${count + 1}/${target.wipLimit})` };
+    }
+  }
+
+  return { allowed: true };
+}
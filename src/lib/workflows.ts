@@ -0,0 +1,78 @@
+// BMad workflows from the backend: filtering by project type and reading their step lists
+import type { WorkflowInfo } from './api';
+import type { Role } from '@/components/KanbanBoard';
+
+export interface WorkflowStep {
+  // Role that carries out the step, when the workflow names one
+  agent?: Role;
+  label: string;
+  notes?: string;
+}
+
+export interface WorkflowDetails {
+  description?: string;
+  steps: WorkflowStep[];
+}
+
+// The workflow a chat is running; its id is sent as `workflow_context` with every message
+export interface ActiveWorkflow {
+  id: string;
+  name: string;
+}
+
+export function collectProjectTypes(workflows: WorkflowInfo[]): string[] {
+  const types = new Set(workflows.flatMap(workflow => workflow.project_types ?? []));
+  return [...types].sort();
+}
+
+// Workflows that declare no project types apply to every board
+export function filterWorkflows(workflows: WorkflowInfo[], projectType?: string): WorkflowInfo[] {
+  if (!projectType) return workflows;
+  return workflows.filter(workflow =>
+    !workflow.project_types?.length || workflow.project_types.includes(projectType)
+  );
+}
+
+// Chat suggestions name workflows loosely: by id, by name, or with different casing
+export function findWorkflow(workflows: WorkflowInfo[], reference: string): WorkflowInfo | undefined {
+  const wanted = reference.trim().toLowerCase();
+  return workflows.find(workflow => workflow.id.toLowerCase() === wanted || workflow.name.toLowerCase() === wanted);
+}
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+function readStep(item: unknown): WorkflowStep | null {
+  if (typeof item === 'string') return item.trim() ? { label: item.trim() } : null;
+  if (!item || typeof item !== 'object') return null;
+
+  const step = item as Record<string, unknown>;
+  const agent = asText(step.agent) ?? asText(step.role);
+  const label = asText(step.action) ?? asText(step.name) ?? asText(step.step) ?? asText(step.creates)
+    ?? asText(step.title) ?? asText(step.description);
+  if (!label && !agent) return null;
+
+  return {
+    agent: agent?.toLowerCase(),
+    label: label ?? `${agent} step`,
+    notes: asText(step.notes) ?? asText(step.condition)
+  };
+}
+
+// The /workflow/{id} payload is loosely shaped; pull out a description and an ordered step list
+export function readWorkflowDetails(context: unknown): WorkflowDetails {
+  if (!context || typeof context !== 'object') {
+    return { description: asText(context), steps: [] };
+  }
+
+  const root = context as Record<string, unknown>;
+  const workflow = root.workflow && typeof root.workflow === 'object'
+    ? root.workflow as Record<string, unknown>
+    : root;
+  const rawSteps: unknown[] = [workflow.sequence, workflow.steps, root.sequence, root.steps].find(Array.isArray) ?? [];
+
+  return {
+    description: asText(workflow.description) ?? asText(root.description) ?? asText(root.context),
+    steps: rawSteps.map(readStep).filter((step): step is WorkflowStep => step !== null)
+  };
+}
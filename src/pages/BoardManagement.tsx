@@ -1,48 +1,57 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, FolderOpen, Calendar, Users } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Plus,
+  FolderOpen,
+  Calendar,
+  Users,
+  Loader2,
+  Settings,
+  MoreVertical,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  Trash2
+} from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-
-interface Board {
-  id: string;
-  name: string;
-  description: string;
-  createdAt: Date;
-  status: 'draft' | 'active' | 'completed';
-  memberCount: number;
-}
-
-const mockBoards: Board[] = [
-  {
-    id: '1',
-    name: 'E-commerce Platform',
-    description: 'Complete e-commerce solution with payment integration',
-    createdAt: new Date('2024-01-15'),
-    status: 'active',
-    memberCount: 4
-  },
-  {
-    id: '2',
-    name: 'Mobile App Redesign',
-    description: 'UI/UX redesign for our mobile application',
-    createdAt: new Date('2024-01-10'),
-    status: 'draft',
-    memberCount: 3
-  }
-];
+import { ConnectionIndicator } from '@/components/ConnectionIndicator';
+import { CloneBoardDialog, DeleteBoardDialog } from '@/components/BoardDialogs';
+import { toast } from '@/hooks/use-toast';
+import { boardRepository, type Board } from '@/lib/boardRepository';
+import { isArchived, setBoardArchived } from '@/lib/boardLifecycle';
+import { roleDirectory } from '@/lib/roles';
 
 export default function BoardManagement() {
-  const [boards, setBoards] = useState<Board[]>(mockBoards);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newBoardName, setNewBoardName] = useState('');
   const [newBoardDescription, setNewBoardDescription] = useState('');
+  const [view, setView] = useState<'current' | 'archived'>('current');
+  const [cloneSource, setCloneSource] = useState<Board | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Board | null>(null);
   const navigate = useNavigate();
 
-  const handleCreateBoard = () => {
+  useEffect(() => {
+    boardRepository.listBoards()
+      .then(setBoards)
+      .catch(error => console.error('Failed to load boards:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleCreateBoard = async () => {
     if (!newBoardName.trim()) return;
 
     const newBoard: Board = {
@@ -51,9 +60,17 @@ export default function BoardManagement() {
       description: newBoardDescription,
       createdAt: new Date(),
       status: 'draft',
-      memberCount: 4
+      // One member per agent role on the team
+      memberCount: roleDirectory.getState().roles.length
     };
 
+    try {
+      await boardRepository.saveBoard(newBoard);
+    } catch (error) {
+      console.error('Failed to save board:', error);
+      return;
+    }
+
     setBoards(prev => [newBoard, ...prev]);
     setNewBoardName('');
     setNewBoardDescription('');
@@ -72,6 +89,20 @@ export default function BoardManagement() {
     }
   };
 
+  const handleArchive = async (board: Board, archived: boolean) => {
+    try {
+      const updated = await setBoardArchived(board, archived);
+      setBoards(prev => prev.map(b => b.id === updated.id ? updated : b));
+      toast({ title: archived ? 'Board archived' : 'Board restored', description: board.name });
+    } catch (error) {
+      console.error('Failed to archive board:', error);
+      toast({ title: 'Could not update board', variant: 'destructive' });
+    }
+  };
+
+  const archivedCount = boards.filter(isArchived).length;
+  const visibleBoards = boards.filter(board => isArchived(board) === (view === 'archived'));
+
   const handleBoardClick = (board: Board) => {
     if (board.status === 'draft') {
       navigate(`/board/${board.id}/setup`);
@@ -92,50 +123,71 @@ export default function BoardManagement() {
             </p>
           </div>
 
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="w-4 h-4" />
-                Create New Board
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Board</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <label className="text-sm font-medium mb-2 block">Board Name</label>
-                  <Input
-                    placeholder="Enter board name..."
-                    value={newBoardName}
-                    onChange={(e) => setNewBoardName(e.target.value)}
-                  />
-                </div>
-                <div>
-                  <label className="text-sm font-medium mb-2 block">Description</label>
-                  <Input
-                    placeholder="Brief description of the project..."
-                    value={newBoardDescription}
-                    onChange={(e) => setNewBoardDescription(e.target.value)}
-                  />
-                </div>
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleCreateBoard} disabled={!newBoardName.trim()}>
-                    Create Board
-                  </Button>
+          <div className="flex items-center gap-2">
+            <ConnectionIndicator />
+            <Button variant="outline" size="icon" onClick={() => navigate('/settings')} aria-label="Settings">
+              <Settings className="w-4 h-4" />
+            </Button>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Create New Board
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New Board</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Board Name</label>
+                    <Input
+                      placeholder="Enter board name..."
+                      value={newBoardName}
+                      onChange={(e) => setNewBoardName(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Description</label>
+                    <Input
+                      placeholder="Brief description of the project..."
+                      value={newBoardDescription}
+                      onChange={(e) => setNewBoardDescription(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreateBoard} disabled={!newBoardName.trim()}>
+                      Create Board
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {(archivedCount > 0 || view === 'archived') && (
+          <Tabs value={view} onValueChange={(value) => setView(value as typeof view)} className="mb-6">
+            <TabsList>
+              <TabsTrigger value="current">Boards</TabsTrigger>
+              <TabsTrigger value="archived">Archived ({archivedCount})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
         {/* Boards Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {boards.map((board) => (
+          {visibleBoards.map((board) => (
             <Card
               key={board.id}
               className="cursor-pointer hover:shadow-lg transition-shadow"
@@ -149,9 +201,37 @@ export default function BoardManagement() {
                       {board.description}
                     </p>
                   </div>
-                  <Badge className={getStatusColor(board.status)}>
-                    {board.status}
-                  </Badge>
+                  <div className="flex items-center gap-1">
+                    <Badge className={getStatusColor(board.status)}>
+                      {board.status}
+                    </Badge>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Board actions">
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem onClick={() => navigate(`/board/${board.id}/settings`)} className="gap-2">
+                          <Settings className="w-4 h-4" />
+                          Settings
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setCloneSource(board)} className="gap-2">
+                          <Copy className="w-4 h-4" />
+                          Clone
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleArchive(board, !isArchived(board))} className="gap-2">
+                          {isArchived(board) ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                          {isArchived(board) ? 'Restore' : 'Archive'}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => setDeleteTarget(board)} className="gap-2 text-destructive">
+                          <Trash2 className="w-4 h-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -176,11 +256,15 @@ export default function BoardManagement() {
           ))}
         </div>
 
+        {!isLoading && view === 'archived' && visibleBoards.length === 0 && (
+          <p className="text-center py-12 text-muted-foreground">No archived boards.</p>
+        )}
+
         {/* Empty State */}
-        {boards.length === 0 && (
+        {!isLoading && view === 'current' && visibleBoards.length === 0 && (
           <div className="text-center py-12">
             <FolderOpen className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No boards yet</h3>
+            <h3 className="text-lg font-semibold mb-2">{boards.length === 0 ? 'No boards yet' : 'All boards are archived'}</h3>
             <p className="text-muted-foreground mb-4">
               Create your first board to get started with AI-powered development workflows
             </p>
@@ -191,6 +275,20 @@ export default function BoardManagement() {
           </div>
         )}
       </div>
+
+      <CloneBoardDialog
+        board={cloneSource}
+        onClose={() => setCloneSource(null)}
+        onCloned={(clone) => {
+          setBoards(prev => [clone, ...prev]);
+          setView('current');
+        }}
+      />
+      <DeleteBoardDialog
+        board={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={(deleted) => setBoards(prev => prev.filter(b => b.id !== deleted.id))}
+      />
     </div>
   );
 }
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ArchiveRestore, ArrowLeft, Copy, Download, FileText, Loader2, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useBoardData } from '@/hooks/use-board-data';
+import { boardStatuses, isArchived } from '@/lib/boardLifecycle';
+import { boardToMarkdown, downloadFile, exportFileName } from '@/lib/exporters';
+import { defaultColumns } from '@/lib/workflow';
+import type { Board } from '@/lib/boardRepository';
+import { CloneBoardDialog, DeleteBoardDialog } from '@/components/BoardDialogs';
+
+export default function BoardSettings() {
+  const { boardId } = useParams<{ boardId: string }>();
+  const navigate = useNavigate();
+  const { board, epics, tickets, isLoading, error, updateBoard } = useBoardData(boardId);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [status, setStatus] = useState<Board['status']>('draft');
+  const [memberCount, setMemberCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cloneSource, setCloneSource] = useState<Board | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Board | null>(null);
+
+  useEffect(() => {
+    if (!board) return;
+    setName(board.name);
+    setDescription(board.description);
+    setStatus(board.status);
+    setMemberCount(board.memberCount);
+  }, [board]);
+
+  const save = async (changes: Partial<Board>, message: string) => {
+    setIsSaving(true);
+    try {
+      await updateBoard(changes);
+      toast({ title: message });
+    } catch (err) {
+      console.error('Failed to save board:', err);
+      toast({
+        title: 'Could not save board',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!board) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">
+            {error ? 'Could not load board' : 'Board not found'}
+          </h1>
+          {error && <p className="text-muted-foreground mb-4">{error}</p>}
+          <Link to="/" className="text-primary underline">
+            Back to Board Management
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isDirty = name !== board.name
+    || description !== board.description
+    || status !== board.status
+    || memberCount !== board.memberCount;
+  const archived = isArchived(board);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="hover:bg-muted p-2">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold">Board Settings</h1>
+            <p className="text-muted-foreground">
+              {epics.length} epics · {tickets.length} tickets · created {board.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+          {archived && <Badge variant="secondary">Archived</Badge>}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>General</CardTitle>
+            <CardDescription>Draft boards open in the setup wizard; active and completed boards open on the board.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="board-name">Board Name</Label>
+              <Input id="board-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="board-description">Description</Label>
+              <Textarea
+                id="board-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={(value) => setStatus(value as Board['status'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {boardStatuses.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="board-members">Team Members</Label>
+                <Input
+                  id="board-members"
+                  type="number"
+                  min={1}
+                  value={memberCount}
+                  onChange={(e) => setMemberCount(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => navigate(board.status === 'draft' ? `/board/${board.id}/setup` : `/board/${board.id}`)}
+              >
+                Open Board
+              </Button>
+              <Button
+                onClick={() => save(
+                  { name: name.trim(), description: description.trim(), status, memberCount },
+                  'Board settings saved'
+                )}
+                disabled={!isDirty || !name.trim() || isSaving}
+              >
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Changes
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Manage</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Requirements and documentation</p>
+                <p className="text-sm text-muted-foreground">
+                  Continue the setup conversation with the analyst and regenerate the documentation.
+                </p>
+              </div>
+              <Button variant="outline" onClick={() => navigate(`/board/${board.id}/setup`)}>
+                <FileText className="w-4 h-4 mr-2" />
+                Open Setup
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Export board report</p>
+                <p className="text-sm text-muted-foreground">
+                  Download epics, tickets, acceptance criteria and agent reports as Markdown.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => downloadFile(
+                  exportFileName(board, 'board-report', 'md'),
+                  boardToMarkdown(board, epics, tickets, board.columns ?? defaultColumns),
+                  'text/markdown'
+                )}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Clone board</p>
+                <p className="text-sm text-muted-foreground">Start a new board from this one's documentation and columns.</p>
+              </div>
+              <Button variant="outline" onClick={() => setCloneSource(board)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Clone
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">{archived ? 'Restore board' : 'Archive board'}</p>
+                <p className="text-sm text-muted-foreground">
+                  {archived
+                    ? `Archived ${board.archivedAt.toLocaleDateString()}. Restoring puts it back in the board list.`
+                    : 'Hide the board from the board list without deleting anything.'}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                disabled={isSaving}
+                onClick={() => save(
+                  { archivedAt: archived ? undefined : new Date() },
+                  archived ? 'Board restored' : 'Board archived'
+                )}
+              >
+                {archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                {archived ? 'Restore' : 'Archive'}
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-destructive/50 p-3">
+              <div>
+                <p className="font-medium text-destructive">Delete board</p>
+                <p className="text-sm text-muted-foreground">Permanently remove the board and everything on it.</p>
+              </div>
+              <Button variant="destructive" onClick={() => setDeleteTarget(board)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <CloneBoardDialog
+        board={cloneSource}
+        onClose={() => setCloneSource(null)}
+        onCloned={(clone) => navigate(`/board/${clone.id}/settings`)}
+      />
+      <DeleteBoardDialog
+        board={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={() => navigate('/')}
+      />
+    </div>
+  );
+}
@@ -6,112 +6,131 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, ArrowRight, FileText, Bot, User, CheckCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, ArrowRight, FileText, Bot, User, CheckCircle, Square, MessageSquare, AlertCircle, RotateCcw } from 'lucide-react';
 import { apiService } from '@/lib/api';
+import { describeError, type ErrorDescription } from '@/lib/apiErrors';
+import { useChatStream } from '@/hooks/use-chat-stream';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { boardRepository, type Board } from '@/lib/boardRepository';
+import { completeSetup, restoreSetup, type SetupMessage, type SetupStep } from '@/lib/boardSetup';
 import { FormattedMessage } from '@/components/FormattedMessage';
+import { ConnectionIndicator, OfflineNotice } from '@/components/ConnectionIndicator';
 import { cn } from '@/lib/utils';
 
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'agent';
-  timestamp: Date;
-  type?: 'welcome' | 'documentation' | 'complete';
-}
-
-interface BoardData {
-  id: string;
-  name: string;
-  description: string;
-  documentation?: string;
-  status: 'setup' | 'ready';
-}
-
 export default function BoardSetup() {
   const { boardId } = useParams<{ boardId: string }>();
   const navigate = useNavigate();
-  const [board, setBoard] = useState<BoardData | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [board, setBoard] = useState<Board | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [messages, setMessages] = useState<SetupMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingDocs, setIsGeneratingDocs] = useState(false);
-  const [currentStep, setCurrentStep] = useState<'chat' | 'generate' | 'complete'>('chat');
+  const [currentStep, setCurrentStep] = useState<SetupStep>('chat');
+  // The last failed request and how to send it again
+  const [setupError, setSetupError] = useState<{ description: ErrorDescription; retry: () => void } | null>(null);
+  const { streamingText, runStream, stopStream } = useChatStream();
+  const { isOffline } = useConnectionStatus();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading, isGeneratingDocs]);
+  }, [messages, isLoading, isGeneratingDocs, streamingText]);
 
   useEffect(() => {
-    // Load board data (in a real app, this would come from an API)
-    const mockBoard: BoardData = {
-      id: boardId || '1',
-      name: 'New Development Board',
-      description: 'AI-powered development workflow',
-      status: 'setup'
-    };
-    setBoard(mockBoard);
-
-    // Initialize with welcome message
-    const welcomeMessage: Message = {
-      id: 'welcome',
-      content: `Hello! I'm your Business Analyst AI. I'll help you create comprehensive documentation for your new board "${mockBoard.name}". 
+    if (!boardId) return;
+    let cancelled = false;
+
+    boardRepository.getBoard(boardId)
+      .then(loadedBoard => {
+        if (cancelled) return;
+        if (!loadedBoard) {
+          setNotFound(true);
+          return;
+        }
+        setBoard(loadedBoard);
+
+        // Pick up the conversation where it was left
+        const setup = restoreSetup(loadedBoard);
+        setMessages(setup.messages);
+        setCurrentStep(setup.step);
+      })
+      .catch(error => {
+        console.error('Failed to load board:', error);
+        if (!cancelled) setNotFound(true);
+      });
 
-Please tell me about your project - what kind of application are you building? What are the main features and requirements?`,
-      sender: 'agent',
-      timestamp: new Date(),
-      type: 'welcome'
+    return () => {
+      cancelled = true;
     };
-    setMessages([welcomeMessage]);
   }, [boardId]);
 
-  const sendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return;
+  // Every step of the conversation is saved on the board so the wizard can be left and resumed
+  const saveProgress = (nextBoard: Board) => {
+    setBoard(nextBoard);
+    boardRepository.saveBoard(nextBoard).catch(error => console.error('Failed to save setup progress:', error));
+  };
+
+  const saveConversation = (nextMessages: SetupMessage[]) => {
+    setMessages(nextMessages);
+    saveProgress({ ...board, setup: { step: 'chat', messages: nextMessages } });
+  };
+
+  const sendMessage = () => {
+    if (!inputMessage.trim() || isLoading || isOffline) return;
 
-    const userMessage: Message = {
+    const userMessage: SetupMessage = {
       id: Date.now().toString(),
       content: inputMessage.trim(),
       sender: 'user',
-      timestamp: new Date()
+      timestamp: new Date().toISOString()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const withUserMessage = [...messages, userMessage];
+    saveConversation(withUserMessage);
     setInputMessage('');
+    askAnalyst(userMessage.content, withUserMessage);
+  };
+
+  // `conversation` already ends with the user's message, so a retry resends it without adding it twice
+  const askAnalyst = async (content: string, conversation: SetupMessage[]) => {
     setIsLoading(true);
+    setSetupError(null);
 
     try {
-      const response = await apiService.chatWithRole('analyst', {
-        message: inputMessage.trim(),
-        context: {
-          board_name: board?.name,
-          board_description: board?.description,
-          conversation_history: messages.slice(-8).map(m => ({
-            sender: m.sender,
-            content: m.content,
-            timestamp: m.timestamp.toISOString()
-          }))
-        }
-      });
-
-      const agentMessage: Message = {
+      const { text, aborted } = await runStream(signal =>
+        apiService.streamChatWithRole('analyst', {
+          message: content,
+          context: {
+            board_name: board?.name,
+            board_description: board?.description,
+            conversation_history: conversation.slice(0, -1).slice(-8).map(m => ({
+              sender: m.sender,
+              content: m.content,
+              timestamp: m.timestamp
+            }))
+          }
+        }, { signal })
+      );
+      if (aborted && !text) return;
+
+      const agentMessage: SetupMessage = {
         id: (Date.now() + 1).toString(),
-        content: response.response,
+        content: aborted ? `${text}\n\n*Response stopped.*` : text,
         sender: 'agent',
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
         type: 'documentation'
       };
 
-      setMessages(prev => [...prev, agentMessage]);
+      saveConversation([...conversation, agentMessage]);
     } catch (error) {
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: `Sorry, I encountered an error. Please try again.`,
-        sender: 'agent',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      // Errors are shown but not kept in the saved conversation
+      setSetupError({
+        description: describeError(error, 'Failed to get a response from the Business Analyst'),
+        retry: () => askAnalyst(content, conversation)
+      });
     } finally {
       setIsLoading(false);
     }
@@ -120,6 +139,7 @@ Please tell me about your project - what kind of application are you building? W
   const generateDocumentation = async () => {
     setIsGeneratingDocs(true);
     setCurrentStep('generate');
+    setSetupError(null);
 
     try {
       const conversationSummary = messages
@@ -127,52 +147,78 @@ Please tell me about your project - what kind of application are you building? W
         .map(m => m.content)
         .join('\n\n');
 
-      const response = await apiService.chatWithRole('analyst', {
-        message: `Based on our conversation, please generate comprehensive project documentation including:
-        1. Project overview and objectives
-        2. Key features and requirements
-        3. User stories and acceptance criteria
-        4. Technical considerations
-        5. Success metrics
-
-        Conversation summary: ${conversationSummary}`,
-        context: {
-          board_name: board?.name,
-          purpose: 'documentation_generation'
-        }
-      });
-
-      // Update board with generated documentation
-      setBoard(prev => prev ? {
-        ...prev,
-        documentation: response.response,
-        status: 'ready'
-      } : null);
-
-      setCurrentStep('complete');
-
-      // Add completion message
-      const completionMessage: Message = {
+      const { text, aborted } = await runStream(signal =>
+        apiService.streamChatWithRole('analyst', {
+          message: `Based on our conversation, please generate comprehensive project documentation including:
+          1. Project overview and objectives
+          2. Key features and requirements
+          3. User stories and acceptance criteria
+          4. Technical considerations
+          5. Success metrics
+
+          Conversation summary: ${conversationSummary}`,
+          context: {
+            board_name: board?.name,
+            purpose: 'documentation_generation'
+          }
+        }, { signal })
+      );
+
+      // A stopped generation leaves the previous documentation untouched
+      if (aborted) {
+        setCurrentStep('chat');
+        return;
+      }
+
+      const completionMessage: SetupMessage = {
         id: Date.now().toString(),
         content: `Perfect! I've generated comprehensive documentation for your board. You can now proceed to create user stories and manage your development workflow.`,
         sender: 'agent',
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
         type: 'complete'
       };
+      const nextMessages = [...messages.filter(m => m.type !== 'complete'), completionMessage];
 
-      setMessages(prev => [...prev, completionMessage]);
+      // Saving the documentation completes setup and activates a draft board
+      const updatedBoard = completeSetup(board, text, nextMessages);
+      await boardRepository.saveBoard(updatedBoard);
+      setBoard(updatedBoard);
+      setMessages(nextMessages);
+      setCurrentStep('complete');
     } catch (error) {
-      console.error('Documentation generation failed:', error);
+      setSetupError({
+        description: describeError(error, 'Failed to generate documentation'),
+        retry: generateDocumentation
+      });
       setCurrentStep('chat');
     } finally {
       setIsGeneratingDocs(false);
     }
   };
 
+  // Back to the conversation to refine the documentation; the current documentation stays until regenerated
+  const refineDocumentation = () => {
+    setCurrentStep('chat');
+    saveProgress({ ...board, setup: { step: 'chat', messages } });
+  };
+
   const proceedToBoard = () => {
     navigate(`/board/${boardId}`);
   };
 
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Board not found</h1>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            Back to Board Management
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   if (!board) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -191,6 +237,12 @@ Please tell me about your project - what kind of application are you building? W
             <p className="text-muted-foreground">{board.description}</p>
           </div>
           <div className="flex items-center gap-2">
+            <ConnectionIndicator />
+            {board.status !== 'draft' && currentStep !== 'complete' && (
+              <Button variant="outline" size="sm" onClick={proceedToBoard}>
+                Back to Board
+              </Button>
+            )}
             <Badge variant={currentStep === 'complete' ? 'default' : 'secondary'}>
               {currentStep === 'chat' && 'Step 1: Requirements Gathering'}
               {currentStep === 'generate' && 'Step 2: Documentation Generation'}
@@ -282,7 +334,7 @@ Please tell me about your project - what kind of application are you building? W
                             <FormattedMessage content={message.content} />
                           </div>
                           <span className="text-xs opacity-70 mt-2 block">
-                            {message.timestamp.toLocaleTimeString()}
+                            {new Date(message.timestamp).toLocaleTimeString()}
                           </span>
                         </div>
 
@@ -305,20 +357,28 @@ Please tell me about your project - what kind of application are you building? W
                           </AvatarFallback>
                         </Avatar>
                         <div className="bg-muted p-3 rounded-lg max-w-[75%] break-words overflow-hidden">
-                          <div className="flex items-center gap-2 mb-2">
-                            <div className="flex space-x-1">
-                              <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-                              <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                              <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
+                          {isLoading && streamingText ? (
+                            <div className="text-sm break-words overflow-wrap-anywhere">
+                              <FormattedMessage content={streamingText} />
                             </div>
-                            <span className="text-sm break-words">
-                              {isGeneratingDocs ? 'Generating comprehensive documentation...' : 'Business Analyst AI is thinking...'}
-                            </span>
-                          </div>
-                          {isGeneratingDocs && (
-                            <p className="text-xs text-muted-foreground">
-                              This may take a few moments as I analyze your requirements and create detailed documentation.
-                            </p>
+                          ) : (
+                            <>
+                              <div className="flex items-center gap-2 mb-2">
+                                <div className="flex space-x-1">
+                                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
+                                </div>
+                                <span className="text-sm break-words">
+                                  {isGeneratingDocs ? 'Generating comprehensive documentation...' : 'Business Analyst AI is thinking...'}
+                                </span>
+                              </div>
+                              {isGeneratingDocs && (
+                                <p className="text-xs text-muted-foreground">
+                                  This may take a few moments as I analyze your requirements and create detailed documentation.
+                                </p>
+                              )}
+                            </>
                           )}
                         </div>
                       </div>
@@ -329,9 +389,32 @@ Please tell me about your project - what kind of application are you building? W
                   </div>
                 </div>
 
+                {setupError && (
+                  <div className="border-t p-3 flex-shrink-0">
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>{setupError.description.title}</AlertTitle>
+                      <AlertDescription className="flex items-center justify-between gap-2">
+                        <span>{setupError.description.message}</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={setupError.retry}
+                          disabled={isLoading || isGeneratingDocs || isOffline}
+                          className="gap-1 flex-shrink-0"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Retry
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
+                  </div>
+                )}
+
                 {/* Input */}
                 {currentStep !== 'complete' && (
                   <div className="border-t p-3 flex-shrink-0">
+                    <OfflineNotice className="mb-2" />
                     <div className="flex space-x-2">
                       <Input
                         placeholder="Describe your project requirements..."
@@ -341,24 +424,27 @@ Please tell me about your project - what kind of application are you building? W
                         className="flex-1"
                         disabled={isLoading || isGeneratingDocs}
                       />
-                      <Button
-                        onClick={sendMessage}
-                        size="sm"
-                        disabled={isLoading || isGeneratingDocs || !inputMessage.trim()}
-                      >
-                        {isLoading ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          'Send'
-                        )}
-                      </Button>
+                      {isLoading || isGeneratingDocs ? (
+                        <Button onClick={stopStream} size="sm" variant="outline">
+                          <Square className="w-4 h-4 mr-1" />
+                          Stop
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={sendMessage}
+                          size="sm"
+                          disabled={!inputMessage.trim() || isOffline}
+                        >
+                          Send
+                        </Button>
+                      )}
                     </div>
 
-                    {messages.length > 2 && currentStep === 'chat' && (
+                    {messages.some(m => m.sender === 'user') && currentStep === 'chat' && (
                       <div className="flex justify-center mt-3">
                         <Button
                           onClick={generateDocumentation}
-                          disabled={isGeneratingDocs}
+                          disabled={isGeneratingDocs || isOffline}
                           className="gap-2"
                         >
                           {isGeneratingDocs ? (
@@ -366,7 +452,7 @@ Please tell me about your project - what kind of application are you building? W
                           ) : (
                             <>
                               <FileText className="w-4 h-4" />
-                              Generate Documentation
+                              {board.documentation ? 'Regenerate Documentation' : 'Generate Documentation'}
                             </>
                           )}
                         </Button>
@@ -381,10 +467,16 @@ Please tell me about your project - what kind of application are you building? W
                       <CheckCircle className="w-5 h-5 text-green-600" />
                       <span className="font-medium">Documentation Complete!</span>
                     </div>
-                    <Button onClick={proceedToBoard} className="w-full gap-2">
-                      <ArrowRight className="w-4 h-4" />
-                      Proceed to Board
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={refineDocumentation} className="flex-1 gap-2">
+                        <MessageSquare className="w-4 h-4" />
+                        Refine Documentation
+                      </Button>
+                      <Button onClick={proceedToBoard} className="flex-1 gap-2">
+                        <ArrowRight className="w-4 h-4" />
+                        Proceed to Board
+                      </Button>
+                    </div>
                   </div>
                 )}
               </CardContent>
@@ -401,12 +493,16 @@ Please tell me about your project - what kind of application are you building? W
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-4">
-                {board.documentation ? (
+                {isGeneratingDocs && streamingText ? (
+                  <ScrollArea className="h-[500px]">
+                    <div className="prose prose-sm max-w-none">
+                      <FormattedMessage content={streamingText} className="text-sm" />
+                    </div>
+                  </ScrollArea>
+                ) : board.documentation ? (
                   <ScrollArea className="h-[500px]">
                     <div className="prose prose-sm max-w-none">
-                      <pre className="whitespace-pre-wrap text-sm bg-muted p-3 rounded-lg">
-                        {board.documentation}
-                      </pre>
+                      <FormattedMessage content={board.documentation} className="text-sm" />
                     </div>
                   </ScrollArea>
                 ) : (
@@ -1,18 +1,53 @@
 import React, { useState } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
 import { KanbanBoard, type Role, type Ticket, type Epic } from '@/components/KanbanBoard';
-import { AgentChat } from '@/components/AgentChat';
+import { AgentChat, type ChatMode } from '@/components/AgentChat';
 import { TicketModal } from '@/components/TicketModal';
 import { DocumentationModal } from '@/components/DocumentationModal';
 import { TicketCreationModal } from '@/components/TicketCreationModal';
+import { PipelineRunPanel } from '@/components/PipelineRunPanel';
+import { WorkflowSettingsModal } from '@/components/WorkflowSettingsModal';
+import { WorkflowPanel } from '@/components/WorkflowPanel';
+import { MessageActionDialog } from '@/components/MessageActionDialog';
+import { useBoardData } from '@/hooks/use-board-data';
+import { usePipelineRunner } from '@/hooks/use-pipeline-runner';
+import { useChatThreads } from '@/hooks/use-chat-threads';
+import { assignMissingRanks } from '@/lib/ranking';
+import { linkTicket } from '@/lib/chatHistory';
+import { appendToDocumentation, type MessageAction } from '@/lib/messageActions';
+import { saveDocumentation, type VersionSource } from '@/lib/documentVersions';
+import { defaultPipelineConfig, type PipelineConfig } from '@/lib/pipeline';
+import type { WorkflowInfo } from '@/lib/api';
+import { roleDirectory } from '@/lib/roles';
+import type { ActiveWorkflow, WorkflowDetails } from '@/lib/workflows';
+import { defaultColumns, defaultTransitions, resolveWorkflowStages, type TransitionRule, type WorkflowColumn } from '@/lib/workflow';
 
 const Index = () => {
+  const { boardId } = useParams<{ boardId: string }>();
+  const navigate = useNavigate();
+  const { board, tickets, epics, isLoading, error, setTickets, setEpics, updateBoard } = useBoardData(boardId);
+  const columns = board?.columns ?? defaultColumns;
+  const transitions = board?.transitions ?? defaultTransitions;
+  const stages = resolveWorkflowStages(columns);
+  const pipeline = usePipelineRunner(tickets, setTickets, stages, { columns, transitions });
+  const { threads, setThreads } = useChatThreads(boardId);
   const [currentRole, setCurrentRole] = useState<Role>('analyst');
   const [isChatOpen, setChatOpen] = useState(false);
   const [chatRole, setChatRole] = useState<Role>('analyst');
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
+  const [chatMode, setChatMode] = useState<ChatMode>('role');
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
   const [isTicketModalOpen, setTicketModalOpen] = useState(false);
   const [isDocumentationOpen, setDocumentationOpen] = useState(false);
   const [isTicketCreationOpen, setTicketCreationOpen] = useState(false);
+  const [isPipelineOpen, setPipelineOpen] = useState(false);
+  const [isWorkflowSettingsOpen, setWorkflowSettingsOpen] = useState(false);
+  const [isWorkflowPanelOpen, setWorkflowPanelOpen] = useState(false);
+  const [focusWorkflow, setFocusWorkflow] = useState<string | null>(null);
+  const [activeWorkflow, setActiveWorkflow] = useState<ActiveWorkflow | null>(null);
+  const [messageAction, setMessageAction] = useState<MessageAction | null>(null);
+  // The chat panel makes way for the action dialog and comes back when it closes
+  const [reopenChat, setReopenChat] = useState(false);
 
   const handleRoleChange = (role: Role) => {
     setCurrentRole(role);
@@ -20,27 +55,144 @@ const Index = () => {
 
   const handleChatOpen = (role: Role) => {
     setChatRole(role);
+    setChatMode('role');
     setChatOpen(true);
   };
 
+  const handleTeamChatOpen = () => {
+    setChatMode('team');
+    setChatOpen(true);
+  };
+
+  // Look the ticket up on every render so the modal reflects agent updates made while it is open
+  const selectedTicket = tickets.find(ticket => ticket.id === selectedTicketId) ?? null;
+
   const handleTicketClick = (ticket: Ticket) => {
-    setSelectedTicket(ticket);
+    setSelectedTicketId(ticket.id);
+    setTicketModalOpen(true);
+  };
+
+  // Ticket links in the chat panel; the overlay would cover the ticket modal
+  const handleTicketOpen = (ticketId: string) => {
+    setChatOpen(false);
+    setSelectedTicketId(ticketId);
     setTicketModalOpen(true);
   };
 
   const handleTicketModalClose = () => {
     setTicketModalOpen(false);
-    setSelectedTicket(null);
+    setSelectedTicketId(null);
+  };
+
+  const pipelineConfig = board?.pipeline ?? defaultPipelineConfig;
+  const isPipelineActive = ['running', 'paused', 'awaiting-approval'].includes(pipeline.state.status);
+
+  const handlePipelineConfigChange = (config: PipelineConfig) => {
+    updateBoard({ pipeline: config }).catch(err => console.error('Failed to save pipeline settings:', err));
+  };
+
+  const handleWorkflowSave = (nextColumns: WorkflowColumn[], nextTransitions: TransitionRule[]) => {
+    // Tickets whose column was removed go back to the first column
+    setTickets(prev => prev.map(ticket =>
+      nextColumns.some(column => column.id === ticket.status)
+        ? ticket
+        : { ...ticket, status: nextColumns[0].id }
+    ));
+    updateBoard({ columns: nextColumns, transitions: nextTransitions })
+      .catch(err => console.error('Failed to save workflow settings:', err));
+  };
+
+  const handleWorkflowsOpen = (workflow: string | null = null) => {
+    setFocusWorkflow(workflow);
+    setWorkflowPanelOpen(true);
+  };
+
+  const handleProjectTypeChange = (projectType: string | undefined) => {
+    updateBoard({ projectType }).catch(err => console.error('Failed to save project type:', err));
   };
 
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [epics, setEpics] = useState<Epic[]>([]);
+  // The chat goes to the agent of the workflow's first step, when the backend knows that role
+  const handleWorkflowStart = (workflow: WorkflowInfo, details: WorkflowDetails) => {
+    const firstAgent = details.steps.find(step => step.agent)?.agent;
+    const knownRoles = roleDirectory.getState().roles;
+    const role = firstAgent && knownRoles.some(known => known.id === firstAgent) ? firstAgent : currentRole;
+
+    setActiveWorkflow({ id: workflow.id, name: workflow.name });
+    setWorkflowPanelOpen(false);
+    handleChatOpen(role);
+  };
 
   const handleTicketsCreated = (newTickets: Ticket[], epic: Epic) => {
-    setTickets(prev => [...prev, ...newTickets]);
+    setTickets(prev => assignMissingRanks([...prev, ...newTickets]));
     setEpics(prev => [...prev, epic]);
   };
 
+  const handleMessageAction = (action: MessageAction) => {
+    setReopenChat(isChatOpen);
+    setChatOpen(false);
+    setMessageAction(action);
+  };
+
+  const handleMessageActionClose = () => {
+    setMessageAction(null);
+    if (reopenChat) setChatOpen(true);
+    setReopenChat(false);
+  };
+
+  const handleTicketFromMessage = (ticket: Ticket) => {
+    setTickets(prev => assignMissingRanks([...prev, ticket]));
+    if (ticket.source) {
+      setThreads(prev => linkTicket(prev, ticket.source.threadId, ticket.source.messageId, ticket.id));
+    }
+  };
+
+  const handleCriteriaFromMessage = (ticketId: string, criteria: string[]) => {
+    setTickets(prev => prev.map(ticket => ticket.id === ticketId
+      ? { ...ticket, acceptanceCriteria: [...(ticket.acceptanceCriteria ?? []), ...criteria] }
+      : ticket
+    ));
+    if (messageAction) {
+      setThreads(prev => linkTicket(prev, messageAction.threadId, messageAction.message.id, ticketId));
+    }
+  };
+
+  const handleTicketUpdate = (updated: Ticket) => {
+    setTickets(prev => prev.map(ticket => ticket.id === updated.id ? updated : ticket));
+  };
+
+  const handleDocumentationFromMessage = (section: string) => {
+    updateBoard(latest => saveDocumentation(latest, appendToDocumentation(latest.documentation, section), 'chat'))
+      .catch(err => console.error('Failed to save documentation:', err));
+  };
+
+  const handleDocumentationSave = async (content: string, source: VersionSource, note?: string) => {
+    await updateBoard(latest => saveDocumentation(latest, content, source, note));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!board) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">
+            {error ? 'Could not load board' : 'Board not found'}
+          </h1>
+          {error && <p className="text-muted-foreground mb-4">{error}</p>}
+          <Link to="/" className="text-primary underline">
+            Back to Board Management
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <>
       <KanbanBoard
@@ -48,8 +200,17 @@ const Index = () => {
         onRoleChange={handleRoleChange}
         onTicketClick={handleTicketClick}
         onChatOpen={handleChatOpen}
+        onTeamChatOpen={handleTeamChatOpen}
         onDocumentationOpen={() => setDocumentationOpen(true)}
         onTicketCreate={() => setTicketCreationOpen(true)}
+        onPipelineOpen={() => setPipelineOpen(true)}
+        onWorkflowSettingsOpen={() => setWorkflowSettingsOpen(true)}
+        onWorkflowsOpen={() => handleWorkflowsOpen()}
+        onBoardSettingsOpen={() => navigate(`/board/${board.id}/settings`)}
+        boardName={board.name}
+        isPipelineActive={isPipelineActive}
+        columns={columns}
+        transitions={transitions}
         tickets={tickets}
         epics={epics}
         onTicketsChange={setTickets}
@@ -58,28 +219,99 @@ const Index = () => {
 
       <AgentChat
         role={chatRole}
+        mode={chatMode}
         isOpen={isChatOpen}
         onClose={() => setChatOpen(false)}
+        threads={threads}
+        onThreadsChange={setThreads}
+        workflow={activeWorkflow}
+        onWorkflowEnd={() => setActiveWorkflow(null)}
+        onWorkflowOpen={(workflow) => {
+          // The chat overlay would cover the panel
+          setChatOpen(false);
+          handleWorkflowsOpen(workflow);
+        }}
+        onMessageAction={handleMessageAction}
+        onTicketOpen={handleTicketOpen}
+        tickets={tickets}
+        epics={epics}
       />
 
       <TicketModal
         ticket={selectedTicket}
+        tickets={tickets}
         epics={epics}
+        columns={columns}
         isOpen={isTicketModalOpen}
         onClose={handleTicketModalClose}
         currentRole={currentRole}
-        onChatOpen={handleChatOpen}
+        threads={threads}
+        onThreadsChange={setThreads}
+        onMessageAction={handleMessageAction}
+        onTicketOpen={setSelectedTicketId}
+        documentation={board.documentation}
+        onTicketUpdate={handleTicketUpdate}
       />
 
       <DocumentationModal
         isOpen={isDocumentationOpen}
         onClose={() => setDocumentationOpen(false)}
+        board={board}
+        epics={epics}
+        tickets={tickets}
+        columns={columns}
+        onSave={handleDocumentationSave}
+      />
+
+      <PipelineRunPanel
+        isOpen={isPipelineOpen}
+        onClose={() => setPipelineOpen(false)}
+        tickets={tickets}
+        config={pipelineConfig}
+        onConfigChange={handlePipelineConfigChange}
+        state={pipeline.state}
+        onStart={() => pipeline.start(pipelineConfig)}
+        onPause={pipeline.pause}
+        onResume={pipeline.resume}
+        onCancel={pipeline.cancel}
+        onApprove={pipeline.approve}
+        onReject={pipeline.reject}
+      />
+
+      <WorkflowSettingsModal
+        isOpen={isWorkflowSettingsOpen}
+        onClose={() => setWorkflowSettingsOpen(false)}
+        columns={columns}
+        transitions={transitions}
+        tickets={tickets}
+        onSave={handleWorkflowSave}
+      />
+
+      <WorkflowPanel
+        isOpen={isWorkflowPanelOpen}
+        onClose={() => setWorkflowPanelOpen(false)}
+        projectType={board.projectType}
+        onProjectTypeChange={handleProjectTypeChange}
+        focusWorkflow={focusWorkflow}
+        onStart={handleWorkflowStart}
       />
 
       <TicketCreationModal
         isOpen={isTicketCreationOpen}
         onClose={() => setTicketCreationOpen(false)}
         onTicketsCreated={handleTicketsCreated}
+        backlogStatus={stages.backlog}
+      />
+
+      <MessageActionDialog
+        action={messageAction}
+        onClose={handleMessageActionClose}
+        tickets={tickets}
+        epics={epics}
+        backlogStatus={stages.backlog}
+        onTicketCreate={handleTicketFromMessage}
+        onCriteriaAdd={handleCriteriaFromMessage}
+        onDocumentationAppend={handleDocumentationFromMessage}
       />
     </>
   );
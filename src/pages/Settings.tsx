@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import {
+  defaultApiBaseUrl,
+  getApiBaseUrl,
+  getApiBaseUrlOverride,
+  isValidApiBaseUrl,
+  setApiBaseUrlOverride
+} from '@/lib/apiConfig';
+
+const statusStyles = {
+  checking: 'text-muted-foreground',
+  online: 'text-success',
+  degraded: 'text-warning',
+  offline: 'text-destructive'
+};
+
+export default function Settings() {
+  const navigate = useNavigate();
+  const connection = useConnectionStatus();
+  const [baseUrl, setBaseUrl] = useState(getApiBaseUrl);
+  const [isOverridden, setIsOverridden] = useState(() => getApiBaseUrlOverride() !== null);
+
+  const isValid = isValidApiBaseUrl(baseUrl);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    setApiBaseUrlOverride(baseUrl);
+    setBaseUrl(getApiBaseUrl());
+    setIsOverridden(getApiBaseUrlOverride() !== null);
+    toast({ title: 'Backend URL saved', description: getApiBaseUrl() });
+  };
+
+  const handleReset = () => {
+    setApiBaseUrlOverride(null);
+    setBaseUrl(defaultApiBaseUrl);
+    setIsOverridden(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="hover:bg-muted p-2">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <h1 className="text-3xl font-bold">Settings</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Agent Backend</CardTitle>
+            <CardDescription>
+              Where the BMad Method backend runs. The build default is {defaultApiBaseUrl}; a URL saved here
+              overrides it in this browser only.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="apiBaseUrl">Backend URL</Label>
+              <Input
+                id="apiBaseUrl"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="http://localhost:8000"
+              />
+              {!isValid && (
+                <p className="text-sm text-destructive">Enter a full http:// or https:// URL</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={!isValid}>Save</Button>
+              <Button variant="outline" onClick={handleReset} disabled={!isOverridden}>
+                Reset to Default
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+              <div>
+                <p>
+                  Status:{' '}
+                  <span className={cn('font-medium capitalize', statusStyles[connection.status])}>
+                    {connection.status}
+                  </span>
+                </p>
+                <p className="text-muted-foreground">
+                  {connection.detail ?? (connection.latencyMs !== null ? `Responded in ${connection.latencyMs} ms` : connection.baseUrl)}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => connection.checkNow()}
+                disabled={connection.status === 'checking'}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Check Now
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}